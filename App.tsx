@@ -1,11 +1,30 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { PivotedData, RawDataRow } from './types';
-import { SovType } from './types';
-import { fetchDataAndProcess, downloadExcel, downloadCsv } from './dataService';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { PivotedData, RawDataRow, DataSummary, DataSource, BrandConfig, TenantConfig, TableHeaders, TableRow, RowSortOptions, MonthRange, DeltaOptions, AggregateOptions, DashboardFilters, DashboardViewState, SavedView, AuthSession, DataQualityReport, CategoryTaxonomy, SovCell, KeywordBreakdown, SlotConfig, TimeOptions, DataExportOptions, ProcessingProgress, BenchmarkOptions, BenchmarkCell, AlertRule, AlertHit, DisplayOptions } from './types';
+import { SovType, DataSourceKind, RowSortMode, DisplayMode, TableRowType, DashboardView, DataIssueType, TimeGrain, ReportFormat, ExportScope, ExportShape, ExportFormat, ProcessingStage, AlertRuleType, AlertBrandTarget, HeatmapScope } from './types';
+import { getSovDelta, downloadCsv, downloadJson, getKeywordBreakdown, downloadText, getExportRows, downloadRows, EXPORT_FILE_EXTENSIONS } from './dataService';
+import { sortPivotedRows, EMPTY_FILTERS } from './pivotEngine';
+import { getBenchmarkCells, getBenchmarkExportRows } from './benchmark';
+import { evaluateAlerts, getAlertExportRows, describeAlertRule, loadAlertRules, saveAlertRules, DEFAULT_ALERT_RULES } from './alerts';
+import { loadDisplayOptions, saveDisplayOptions, getPlatformColor, createHeatmap, DEFAULT_DISPLAY_OPTIONS, MAX_DECIMALS } from './displayOptions';
+import { getDefaultViewState, encodeViewState, decodeViewState, loadSavedViews, saveSavedViews } from './viewState';
+import { login, logout, restoreSession, clearSession } from './auth';
+import { ChartsView } from './Charts';
+import type { ChartRowSelection } from './Charts';
+import { loadBrandConfig, parseBrandConfig, saveBrandConfig } from './brandConfig';
+import { describeDataSource } from './dataSources';
+import { fetchRawData, pivotInWorker, pivotReportInWorker } from './dataWorkerClient';
+import type { PivotResult } from './dataWorker';
+import { downloadExcelReport } from './excelReport';
+import { downloadPdfReport, downloadPptxReport } from './clientReport';
+import { fetchTenantConfig, isSessionExpiredError } from './tenantConfig';
+import { getIssueCsvRows } from './dataQuality';
+import { needsCrawlDate } from './timeGrain';
+import { loadSlotConfig, saveSlotConfig, getDefaultSlotLabel } from './slotConfig';
+import { loadTaxonomy, saveTaxonomy, taxonomyToSql, findDuplicateKeywords } from './taxonomy';
 
 // --- UTILITY HOOK ---
-const useOnClickOutside = <T extends HTMLElement>(ref: React.RefObject<T>, handler: (event: MouseEvent | TouchEvent) => void) => {
+const useOnClickOutside = <T extends HTMLElement>(ref: React.RefObject<T | null>, handler: (event: MouseEvent | TouchEvent) => void) => {
   useEffect(() => {
     const listener = (event: MouseEvent | TouchEvent) => {
       if (!ref.current || ref.current.contains(event.target as Node)) {
@@ -22,6 +41,18 @@ const useOnClickOutside = <T extends HTMLElement>(ref: React.RefObject<T>, handl
   }, [ref, handler]);
 };
 
+const useOnEscape = (handler: () => void) => {
+  useEffect(() => {
+    const handleEsc = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        handler();
+      }
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [handler]);
+};
+
 // --- ICONS ---
 const ExcelIcon: React.FC = () => (
   <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2">
@@ -39,322 +70,2162 @@ const DownloadIcon: React.FC = () => (
   </svg>
 );
 
-const InfoIcon: React.FC<{ className?: string }> = ({ className }) => (
-  <svg xmlns="http://www.w3.org/2000/svg" className={className || "h-5 w-5"} viewBox="0 0 20 20" fill="currentColor">
-    <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
-  </svg>
-);
+const InfoIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className || "h-5 w-5"} viewBox="0 0 20 20" fill="currentColor">
+    <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+  </svg>
+);
+
+const RefreshIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className || "h-5 w-5"} viewBox="0 0 20 20" fill="currentColor">
+    <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
+  </svg>
+);
+
+const SettingsIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className || "h-5 w-5"} viewBox="0 0 20 20" fill="currentColor">
+    <path fillRule="evenodd" d="M11.49 3.17c-.38-1.56-2.6-1.56-2.98 0a1.532 1.532 0 01-2.286.948c-1.372-.836-2.942.734-2.106 2.106.54.886.061 2.042-.947 2.287-1.561.379-1.561 2.6 0 2.978a1.532 1.532 0 01.947 2.287c-.836 1.372.734 2.942 2.106 2.106a1.532 1.532 0 012.287.947c.379 1.561 2.6 1.561 2.978 0a1.533 1.533 0 012.287-.947c1.372.836 2.942-.734 2.106-2.106a1.533 1.533 0 01.947-2.287c1.561-.379 1.561-2.6 0-2.978a1.532 1.532 0 01-.947-2.287c.836-1.372-.734-2.942-2.106-2.106a1.532 1.532 0 01-2.287-.947zM10 13a3 3 0 100-6 3 3 0 000 6z" clipRule="evenodd" />
+  </svg>
+);
+
+const BookmarkIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className || "h-5 w-5"} viewBox="0 0 20 20" fill="currentColor">
+    <path d="M5 4a2 2 0 012-2h6a2 2 0 012 2v14l-5-2.5L5 18V4z" />
+  </svg>
+);
+
+const LinkIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className || "h-5 w-5"} viewBox="0 0 20 20" fill="currentColor">
+    <path fillRule="evenodd" d="M12.586 4.586a2 2 0 112.828 2.828l-3 3a2 2 0 01-2.828 0 1 1 0 00-1.414 1.414 4 4 0 005.656 0l3-3a4 4 0 00-5.656-5.656l-1.5 1.5a1 1 0 101.414 1.414l1.5-1.5zm-5 5a2 2 0 012.828 0 1 1 0 101.414-1.414 4 4 0 00-5.656 0l-3 3a4 4 0 105.656 5.656l1.5-1.5a1 1 0 10-1.414-1.414l-1.5 1.5a2 2 0 11-2.828-2.828l3-3z" clipRule="evenodd" />
+  </svg>
+);
+
+const PresentationIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className || "h-5 w-5"} viewBox="0 0 20 20" fill="currentColor">
+    <path fillRule="evenodd" d="M3 3a1 1 0 000 2v8a2 2 0 002 2h2.586l-1.293 1.293a1 1 0 101.414 1.414L10 15.414l2.293 2.293a1 1 0 001.414-1.414L12.414 15H15a2 2 0 002-2V5a1 1 0 100-2H3zm11 4a1 1 0 10-2 0v4a1 1 0 102 0V7zm-3 1a1 1 0 10-2 0v3a1 1 0 102 0V8zM8 9a1 1 0 00-2 0v2a1 1 0 102 0V9z" clipRule="evenodd" />
+  </svg>
+);
+
+// --- HELPER COMPONENTS ---
+
+interface MultiSelectDropdownProps {
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  placeholder: string;
+}
+
+const MultiSelectDropdown: React.FC<MultiSelectDropdownProps> = ({ options, selected, onChange, placeholder }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  useOnClickOutside(dropdownRef, () => setIsOpen(false));
+
+  const filteredOptions = options.filter(option => option.toLowerCase().includes(searchTerm.toLowerCase()));
+  const isAllSelected = options.length > 0 && selected.length === options.length;
+
+  const handleSelectAll = () => {
+    if (isAllSelected) {
+      onChange([]);
+    } else {
+      onChange(options);
+    }
+  };
+
+  const handleOptionToggle = (option: string) => {
+    if (selected.includes(option)) {
+      onChange(selected.filter(o => o !== option));
+    } else {
+      onChange([...selected, option]);
+    }
+  };
+
+  return (
+    <div className="relative w-full" ref={dropdownRef}>
+      <button onClick={() => setIsOpen(!isOpen)} className="bg-white border border-gray-300 rounded-md shadow-sm pl-3 pr-10 py-2 text-left cursor-default focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm w-full flex justify-between items-center">
+        <span className="block truncate">{selected.length === 0 ? placeholder : `${selected.length} selected`}</span>
+        <span className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
+          <svg className="h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+            <path fillRule="evenodd" d="M10 3a1 1 0 01.707.293l3 3a1 1 0 01-1.414 1.414L10 5.414 7.707 7.707a1 1 0 01-1.414-1.414l3-3A1 1 0 0110 3zm-3.707 9.293a1 1 0 011.414 0L10 14.586l2.293-2.293a1 1 0 011.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute mt-1 w-full rounded-md bg-white shadow-lg z-40">
+          <div className="p-2">
+            <input type="text" placeholder="Search..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="w-full px-2 py-1 border border-gray-300 rounded-md"/>
+          </div>
+          <ul className="max-h-60 overflow-auto">
+            <li className="p-2 border-b border-gray-200">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input type="checkbox" checked={isAllSelected} onChange={handleSelectAll} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                <span className="font-semibold text-gray-900">Select All</span>
+              </label>
+            </li>
+            {filteredOptions.map(option => (
+              <li key={option} className="text-gray-900 cursor-default select-none relative py-2 pl-3 pr-9 hover:bg-gray-100">
+                 <label className="flex items-center space-x-3 cursor-pointer">
+                    <input type="checkbox" checked={selected.includes(option)} onChange={() => handleOptionToggle(option)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                    <span>{option}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+
+interface DataSourcePickerProps {
+  dataSource: DataSource;
+  workspaceSource: DataSource;
+  onChange: (source: DataSource) => void;
+}
+
+const DataSourcePicker: React.FC<DataSourcePickerProps> = ({ dataSource, workspaceSource, onChange }) => {
+  // The picked kind is only a draft until the user supplies a URL or file, so the active source keeps loading meanwhile.
+  const [kind, setKind] = useState<DataSourceKind>(dataSource.kind);
+  const [sheetUrl, setSheetUrl] = useState(dataSource.kind === DataSourceKind.PublishedSheet ? dataSource.url : '');
+  const [jsonUrl, setJsonUrl] = useState(dataSource.kind === DataSourceKind.JsonEndpoint ? dataSource.url : '');
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onChange({ kind: DataSourceKind.LocalFile, file });
+    }
+    e.target.value = '';
+  };
+
+  const inputClass = "flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+  const loadButtonClass = "px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-300 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-3">
+      <div className="inline-flex items-center space-x-1 p-1 bg-gray-100 rounded-full">
+        {Object.values(DataSourceKind).map(type => (
+          <button
+            key={type}
+            onClick={() => setKind(type)}
+            className={`px-4 py-1.5 text-sm font-semibold rounded-full transition-colors ${kind === type ? 'bg-white text-gray-800 shadow-sm' : 'bg-transparent text-gray-500 hover:bg-gray-200'}`}
+          >
+            {type}
+          </button>
+        ))}
+      </div>
+
+      {kind === DataSourceKind.PublishedSheet && (
+        <div className="flex gap-2">
+          <input type="url" value={sheetUrl} onChange={e => setSheetUrl(e.target.value)} placeholder="Published CSV URL" className={inputClass} />
+          <button onClick={() => onChange({ kind: DataSourceKind.PublishedSheet, url: sheetUrl.trim() })} disabled={!sheetUrl.trim()} className={loadButtonClass}>Load</button>
+        </div>
+      )}
+      {kind === DataSourceKind.LocalFile && (
+        <input type="file" accept=".csv,.xlsx,.xls" onChange={handleFileChange} className="block text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100" />
+      )}
+      {kind === DataSourceKind.JsonEndpoint && (
+        <div className="flex gap-2">
+          <input type="url" value={jsonUrl} onChange={e => setJsonUrl(e.target.value)} placeholder="https://example.com/sov-rows.json" className={inputClass} />
+          <button onClick={() => onChange({ kind: DataSourceKind.JsonEndpoint, url: jsonUrl.trim() })} disabled={!jsonUrl.trim()} className={loadButtonClass}>Load</button>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Showing: <span className="font-medium text-gray-700">{dataSource.kind}</span> &middot; <span className="break-all">{describeDataSource(dataSource, workspaceSource)}</span>
+        {dataSource !== workspaceSource && (
+          <button onClick={() => onChange(workspaceSource)} className="ml-2 text-indigo-600 hover:text-indigo-800 font-medium">Back to workspace data</button>
+        )}
+      </p>
+    </div>
+  );
+};
+
+
+interface ActiveFilterChipsProps {
+  filters: DashboardFilters;
+  allCategories: string[];
+  onChange: (filters: DashboardFilters) => void;
+}
+
+const ActiveFilterChips: React.FC<ActiveFilterChipsProps> = ({ filters, allCategories, onChange }) => {
+  // Categories start fully selected, so they only count as a filter once some have been deselected.
+  const isCategoryFilterActive = filters.categories.length > 0 && filters.categories.length < allCategories.length;
+  const chips: { key: string; label: string; clear: DashboardFilters }[] = [];
+
+  if (isCategoryFilterActive) {
+    chips.push({ key: 'categories', label: `Category: ${filters.categories.join(', ')}`, clear: { ...filters, categories: allCategories } });
+  }
+  ([
+    ['platforms', 'Platform'],
+    ['cities', 'City'],
+    ['slots', 'Slot'],
+    ['brands', 'Brand'],
+  ] as [keyof Omit<DashboardFilters, 'categories' | 'monthRange'>, string][]).forEach(([key, name]) => {
+    if (filters[key].length > 0) {
+      chips.push({ key, label: `${name}: ${filters[key].join(', ')}`, clear: { ...filters, [key]: [] } });
+    }
+  });
+  if (filters.monthRange) {
+    const { from, to } = filters.monthRange;
+    chips.push({ key: 'monthRange', label: `Period: ${from === to ? from : `${from} \u2013 ${to}`}`, clear: { ...filters, monthRange: null } });
+  }
+
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-4">
+      {chips.map(chip => (
+        <span key={chip.key} className="inline-flex items-center max-w-xs bg-indigo-50 text-indigo-700 text-xs font-medium pl-3 pr-1 py-1 rounded-full">
+          <span className="truncate" title={chip.label}>{chip.label}</span>
+          <button onClick={() => onChange(chip.clear)} className="ml-1 px-1.5 rounded-full hover:bg-indigo-100" aria-label={`Clear ${chip.key} filter`}>&times;</button>
+        </span>
+      ))}
+      <button onClick={() => onChange({ ...EMPTY_FILTERS, categories: allCategories })} className="text-xs font-medium text-gray-500 hover:text-indigo-600">
+        Clear all
+      </button>
+    </div>
+  );
+};
+
+interface SavedViewsMenuProps {
+  tenantId: string;
+  currentQuery: string;
+  onApply: (query: string) => void;
+}
+
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ tenantId, currentQuery, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [views, setViews] = useState<SavedView[]>(() => loadSavedViews(tenantId));
+  const [newViewName, setNewViewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+  useOnClickOutside(menuRef, () => setIsOpen(false));
+
+  const updateViews = (next: SavedView[]) => {
+    saveSavedViews(tenantId, next);
+    setViews(next);
+  };
+
+  const handleCreate = () => {
+    const name = newViewName.trim();
+    if (!name) return;
+    updateViews([...views, { id: crypto.randomUUID(), name, createdAt: new Date().toISOString(), query: currentQuery }]);
+    setNewViewName('');
+  };
+
+  const handleRename = (id: string) => {
+    const name = renameValue.trim();
+    if (name) {
+      updateViews(views.map(v => v.id === id ? { ...v, name } : v));
+    }
+    setRenamingId(null);
+  };
+
+  const inputClass = "flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button onClick={() => setIsOpen(!isOpen)} className="flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+        <BookmarkIcon className="h-5 w-5 mr-2" /> Saved Views
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-80 rounded-md bg-white shadow-lg z-40 border border-gray-200">
+          <ul className="max-h-72 overflow-auto divide-y divide-gray-100">
+            {views.length === 0 && <li className="p-3 text-sm text-gray-500">No saved views yet.</li>}
+            {views.map(view => (
+              <li key={view.id} className="flex items-center gap-2 p-2 hover:bg-gray-50">
+                {renamingId === view.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={e => setRenameValue(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') handleRename(view.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onBlur={() => handleRename(view.id)}
+                    className={inputClass}
+                  />
+                ) : (
+                  <button onClick={() => { onApply(view.query); setIsOpen(false); }} className="flex-1 text-left text-sm text-gray-800 truncate" title={`Open "${view.name}"`}>
+                    {view.name}
+                  </button>
+                )}
+                <button onClick={() => { setRenamingId(view.id); setRenameValue(view.name); }} className="text-xs text-gray-500 hover:text-indigo-600">Rename</button>
+                <button onClick={() => updateViews(views.filter(v => v.id !== view.id))} className="text-gray-400 hover:text-red-600 px-1" aria-label={`Delete ${view.name}`}>&times;</button>
+              </li>
+            ))}
+          </ul>
+          <div className="p-2 border-t border-gray-200 space-y-2">
+            <div className="flex gap-2">
+              <input value={newViewName} onChange={e => setNewViewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleCreate()} placeholder="Name this view..." className={inputClass} />
+              <button onClick={handleCreate} disabled={!newViewName.trim()} className="text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-300">Save</button>
+            </div>
+            <button onClick={() => downloadJson(views, 'saved_views.json')} disabled={views.length === 0} className="text-xs font-medium text-gray-500 hover:text-indigo-600 disabled:text-gray-300">
+              Export saved views
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ClientReportMenuProps {
+  disabled: boolean;
+  isGenerating: boolean;
+  onGenerate: (format: ReportFormat) => void;
+}
+
+const ClientReportMenu: React.FC<ClientReportMenuProps> = ({ disabled, isGenerating, onGenerate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  useOnClickOutside(menuRef, () => setIsOpen(false));
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button onClick={() => setIsOpen(!isOpen)} disabled={disabled || isGenerating} className="flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-300 disabled:cursor-not-allowed">
+        <PresentationIcon className="h-5 w-5 mr-2" /> {isGenerating ? 'Generating...' : 'Generate Report'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-56 rounded-md bg-white shadow-lg z-40 border border-gray-200 py-1">
+          {Object.values(ReportFormat).map(format => (
+            <button key={format} onClick={() => { onGenerate(format); setIsOpen(false); }} className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50">
+              {format === ReportFormat.Pdf ? 'Client report (PDF)' : 'Client deck (PowerPoint)'}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CategoryTaxonomyModalProps {
+  taxonomy: CategoryTaxonomy;
+  workspaceTaxonomy: CategoryTaxonomy;
+  onSave: (taxonomy: CategoryTaxonomy) => void;
+  onClose: () => void;
+}
+
+// As with brand settings, keyword lists are edited as comma-separated text and split on save.
+type TaxonomyDraft = {
+  rules: { category: string; keywords: string }[];
+  fallbackCategory: string;
+};
+
+const toTaxonomyDraft = (taxonomy: CategoryTaxonomy): TaxonomyDraft => ({
+  rules: taxonomy.rules.map(rule => ({ category: rule.category, keywords: rule.keywords.join(', ') })),
+  fallbackCategory: taxonomy.fallbackCategory,
+});
+
+const fromTaxonomyDraft = (draft: TaxonomyDraft, base: CategoryTaxonomy): CategoryTaxonomy => ({
+  version: base.version,
+  updatedAt: base.updatedAt,
+  rules: draft.rules
+    .filter(rule => rule.category.trim())
+    .map(rule => ({ category: rule.category.trim(), keywords: splitList(rule.keywords).map(k => k.toLowerCase()) })),
+  fallbackCategory: draft.fallbackCategory.trim() || base.fallbackCategory,
+});
+
+const CategoryTaxonomyModal: React.FC<CategoryTaxonomyModalProps> = ({ taxonomy, workspaceTaxonomy, onSave, onClose }) => {
+    const modalRef = useRef<HTMLDivElement>(null);
+    const [search, setSearch] = useState('');
+    const [draft, setDraft] = useState<TaxonomyDraft | null>(null);
+    useOnClickOutside(modalRef, onClose);
+    useOnEscape(onClose);
+
+    const query = search.trim().toLowerCase();
+    const visibleRules = taxonomy.rules.filter(rule =>
+        !query || rule.category.toLowerCase().includes(query) || rule.keywords.some(k => k.includes(query)));
+    const duplicates = draft ? findDuplicateKeywords(fromTaxonomyDraft(draft, taxonomy)) : [];
+
+    const updateRule = (index: number, field: 'category' | 'keywords', value: string) => {
+        setDraft(d => d && ({ ...d, rules: d.rules.map((r, i) => i === index ? { ...r, [field]: value } : r) }));
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        onSave({ ...fromTaxonomyDraft(draft, taxonomy), version: taxonomy.version + 1, updatedAt: new Date().toISOString() });
+    };
+
+    const inputClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+    const linkButtonClass = "text-sm font-medium text-indigo-600 hover:text-indigo-800";
+    const primaryButtonClass = "px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500";
+    const secondaryButtonClass = "px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500";
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+                <div className="p-4 border-b">
+                    <h2 className="text-lg font-semibold text-gray-800">Category Definitions</h2>
+                    <p className="text-sm text-gray-500">
+                        How keywords are grouped into categories &middot; v{taxonomy.version}, updated {new Date(taxonomy.updatedAt).toLocaleDateString()}
+                        {taxonomy !== workspaceTaxonomy && ' (edited locally)'}
+                    </p>
+                </div>
+                {draft ? (
+                    <div className="p-6 overflow-y-auto space-y-3">
+                        <p className="text-xs text-gray-500">Rules are checked top to bottom; a keyword only counts towards the first category that lists it. Rows with a KEYWORD column are re-categorised with these rules.</p>
+                        {draft.rules.map((rule, index) => (
+                            <div key={index} className="flex items-start gap-2">
+                                <input value={rule.category} onChange={e => updateRule(index, 'category', e.target.value)} placeholder="Category" className={`${inputClass} max-w-[12rem]`} />
+                                <textarea value={rule.keywords} onChange={e => updateRule(index, 'keywords', e.target.value)} placeholder="Keywords, comma separated" rows={2} className={`${inputClass} font-mono`} />
+                                <button onClick={() => setDraft(d => d && ({ ...d, rules: d.rules.filter((_, i) => i !== index) }))} className="text-gray-400 hover:text-red-600 px-1" aria-label="Remove category">&times;</button>
+                            </div>
+                        ))}
+                        <button onClick={() => setDraft(d => d && ({ ...d, rules: [...d.rules, { category: '', keywords: '' }] }))} className={linkButtonClass}>+ Add category</button>
+                        <label className="flex items-center gap-2 text-sm text-gray-700 pt-2">
+                            <span className="whitespace-nowrap">Everything else:</span>
+                            <input value={draft.fallbackCategory} onChange={e => setDraft(d => d && ({ ...d, fallbackCategory: e.target.value }))} className={`${inputClass} max-w-[12rem]`} />
+                        </label>
+                        {duplicates.length > 0 && (
+                            <div className="text-sm text-amber-700 bg-amber-50 rounded-md p-3">
+                                <p className="font-medium">Keywords listed under more than one category:</p>
+                                <ul className="mt-1 list-disc list-inside">
+                                    {duplicates.map(d => <li key={d.keyword}><span className="font-mono">{d.keyword}</span> &rarr; {d.categories.join(', ')} (counts as {d.categories[0]})</li>)}
+                                </ul>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <div className="p-6 overflow-y-auto space-y-4">
+                        <input type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search categories or keywords..." className={inputClass} />
+                        {visibleRules.length === 0 && <p className="text-sm text-gray-500">No category or keyword matches "{search}".</p>}
+                        {visibleRules.map(rule => (
+                            <div key={rule.category}>
+                                <h3 className="font-semibold text-gray-700">{rule.category}</h3>
+                                <div className="flex flex-wrap gap-1 mt-2">
+                                    {rule.keywords.map(kw => (
+                                        <span key={kw} className={`text-xs font-mono px-2 py-1 rounded ${query && kw.includes(query) ? 'bg-yellow-100 text-gray-900' : 'bg-gray-100 text-gray-700'}`}>
+                                            {kw}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        {!query && <p className="text-sm text-gray-500">Any other keyword is counted as <span className="font-medium">{taxonomy.fallbackCategory}</span>.</p>}
+                    </div>
+                )}
+                <div className="p-4 border-t bg-gray-50 flex flex-wrap justify-between gap-2">
+                    <div className="flex items-center gap-4">
+                        <button onClick={() => downloadText(taxonomyToSql(draft ? fromTaxonomyDraft(draft, taxonomy) : taxonomy), 'category_case.sql')} className={linkButtonClass}>Export SQL</button>
+                        <button onClick={() => downloadJson(draft ? fromTaxonomyDraft(draft, taxonomy) : taxonomy, 'category_taxonomy.json')} className={linkButtonClass}>Export JSON</button>
+                        {draft && <button onClick={() => setDraft(toTaxonomyDraft(workspaceTaxonomy))} className={linkButtonClass}>Reset to workspace</button>}
+                    </div>
+                    {draft ? (
+                        <div className="flex gap-2">
+                            <button onClick={() => setDraft(null)} className={secondaryButtonClass}>Cancel</button>
+                            <button onClick={handleSave} className={primaryButtonClass}>Save</button>
+                        </div>
+                    ) : (
+                        <div className="flex gap-2">
+                            <button onClick={() => setDraft(toTaxonomyDraft(taxonomy))} className={secondaryButtonClass}>Edit</button>
+                            <button onClick={onClose} className={primaryButtonClass}>Close</button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface BrandSettingsModalProps {
+  brandConfig: BrandConfig;
+  defaultBrandConfig: BrandConfig;
+  knownBrands: string[];
+  onSave: (config: BrandConfig) => void;
+  onClose: () => void;
+}
+
+// Lists are edited as comma-separated text and only split on save, so typing "Modern, " doesn't lose the trailing separator.
+type BrandConfigDraft = {
+  groups: { name: string; members: string }[];
+  aliases: { canonical: string; spellings: string }[];
+  visibleBrands: string[];
+};
+
+const splitList = (text: string): string[] => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const toBrandConfigDraft = (config: BrandConfig): BrandConfigDraft => ({
+  groups: config.groups.map(g => ({ name: g.name, members: g.members.join(', ') })),
+  aliases: config.aliases.map(a => ({ canonical: a.canonical, spellings: a.spellings.join(', ') })),
+  visibleBrands: [...config.visibleBrands],
+});
+
+const fromBrandConfigDraft = (draft: BrandConfigDraft): BrandConfig => ({
+  groups: draft.groups
+    .filter(g => g.name.trim())
+    .map(g => ({ name: g.name.trim(), members: splitList(g.members) })),
+  aliases: draft.aliases
+    .filter(a => a.canonical.trim())
+    .map(a => ({ canonical: a.canonical.trim(), spellings: splitList(a.spellings) })),
+  visibleBrands: draft.visibleBrands,
+});
+
+const BrandSettingsModal: React.FC<BrandSettingsModalProps> = ({ brandConfig, defaultBrandConfig, knownBrands, onSave, onClose }) => {
+    const modalRef = useRef<HTMLDivElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [draft, setDraft] = useState<BrandConfigDraft>(() => toBrandConfigDraft(brandConfig));
+    const [newVisibleBrand, setNewVisibleBrand] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+    useOnClickOutside(modalRef, onClose);
+    useOnEscape(onClose);
+
+    const updateGroup = (index: number, field: 'name' | 'members', value: string) => {
+        setDraft(d => ({ ...d, groups: d.groups.map((g, i) => i === index ? { ...g, [field]: value } : g) }));
+    };
+
+    const updateAlias = (index: number, field: 'canonical' | 'spellings', value: string) => {
+        setDraft(d => ({ ...d, aliases: d.aliases.map((a, i) => i === index ? { ...a, [field]: value } : a) }));
+    };
+
+    const moveVisibleBrand = (index: number, offset: number) => {
+        setDraft(d => {
+            const target = index + offset;
+            if (target < 0 || target >= d.visibleBrands.length) return d;
+            const visibleBrands = [...d.visibleBrands];
+            [visibleBrands[index], visibleBrands[target]] = [visibleBrands[target], visibleBrands[index]];
+            return { ...d, visibleBrands };
+        });
+    };
+
+    const addVisibleBrand = () => {
+        const brand = newVisibleBrand.trim();
+        if (brand && !draft.visibleBrands.includes(brand)) {
+            setDraft(d => ({ ...d, visibleBrands: [...d.visibleBrands, brand] }));
+        }
+        setNewVisibleBrand('');
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        file.text()
+            .then(text => {
+                setDraft(toBrandConfigDraft(parseBrandConfig(JSON.parse(text))));
+                setImportError(null);
+            })
+            .catch(err => setImportError(`Could not import "${file.name}": ${err instanceof Error ? err.message : err}`));
+    };
+
+    const inputClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+    const linkButtonClass = "text-sm font-medium text-indigo-600 hover:text-indigo-800";
+    const removeButtonClass = "text-gray-400 hover:text-red-600 px-1";
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+                <div className="p-4 border-b">
+                    <h2 className="text-lg font-semibold text-gray-800">Brand Settings</h2>
+                    <p className="text-sm text-gray-500">Club brands into parent groups, merge alternate spellings and choose the report columns.</p>
+                </div>
+                <div className="p-6 overflow-y-auto space-y-6">
+                    <datalist id="known-brands">
+                        {knownBrands.map(brand => <option key={brand} value={brand} />)}
+                    </datalist>
+
+                    <section>
+                        <h3 className="font-semibold text-gray-700">Visible Brands</h3>
+                        <p className="text-xs text-gray-500 mb-2">Shown left to right in this order.</p>
+                        <ul className="space-y-1">
+                            {draft.visibleBrands.map((brand, index) => (
+                                <li key={brand} className="flex items-center gap-2 bg-gray-50 rounded px-2 py-1 text-sm">
+                                    <span className="flex-1 text-gray-700">{brand}</span>
+                                    <button onClick={() => moveVisibleBrand(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-800 disabled:text-gray-300 px-1" aria-label={`Move ${brand} left`}>&uarr;</button>
+                                    <button onClick={() => moveVisibleBrand(index, 1)} disabled={index === draft.visibleBrands.length - 1} className="text-gray-500 hover:text-gray-800 disabled:text-gray-300 px-1" aria-label={`Move ${brand} right`}>&darr;</button>
+                                    <button onClick={() => setDraft(d => ({ ...d, visibleBrands: d.visibleBrands.filter(b => b !== brand) }))} className={removeButtonClass} aria-label={`Hide ${brand}`}>&times;</button>
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="flex gap-2 mt-2">
+                            <input list="known-brands" value={newVisibleBrand} onChange={e => setNewVisibleBrand(e.target.value)} onKeyDown={e => e.key === 'Enter' && addVisibleBrand()} placeholder="Add brand..." className={inputClass} />
+                            <button onClick={addVisibleBrand} className={linkButtonClass}>Add</button>
+                        </div>
+                    </section>
+
+                    <section>
+                        <h3 className="font-semibold text-gray-700">Parent Groups</h3>
+                        <p className="text-xs text-gray-500 mb-2">Impressions of the member brands are reported under the group name.</p>
+                        <div className="space-y-2">
+                            {draft.groups.map((group, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <input value={group.name} onChange={e => updateGroup(index, 'name', e.target.value)} placeholder="Group name" className={`${inputClass} max-w-[10rem]`} />
+                                    <input value={group.members} onChange={e => updateGroup(index, 'members', e.target.value)} placeholder="Member brands, comma separated" className={inputClass} />
+                                    <button onClick={() => setDraft(d => ({ ...d, groups: d.groups.filter((_, i) => i !== index) }))} className={removeButtonClass} aria-label="Remove group">&times;</button>
+                                </div>
+                            ))}
+                        </div>
+                        <button onClick={() => setDraft(d => ({ ...d, groups: [...d.groups, { name: '', members: '' }] }))} className={`${linkButtonClass} mt-2`}>+ Add group</button>
+                    </section>
+
+                    <section>
+                        <h3 className="font-semibold text-gray-700">Aliases</h3>
+                        <p className="text-xs text-gray-500 mb-2">Alternate spellings in the data that should count as the same brand. Matching ignores case.</p>
+                        <div className="space-y-2">
+                            {draft.aliases.map((alias, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <input value={alias.canonical} onChange={e => updateAlias(index, 'canonical', e.target.value)} placeholder="Brand name" className={`${inputClass} max-w-[10rem]`} />
+                                    <input value={alias.spellings} onChange={e => updateAlias(index, 'spellings', e.target.value)} placeholder="Spellings, comma separated" className={inputClass} />
+                                    <button onClick={() => setDraft(d => ({ ...d, aliases: d.aliases.filter((_, i) => i !== index) }))} className={removeButtonClass} aria-label="Remove alias">&times;</button>
+                                </div>
+                            ))}
+                        </div>
+                        <button onClick={() => setDraft(d => ({ ...d, aliases: [...d.aliases, { canonical: '', spellings: '' }] }))} className={`${linkButtonClass} mt-2`}>+ Add alias</button>
+                    </section>
+
+                    {importError && <p className="text-sm text-red-600">{importError}</p>}
+                </div>
+                <div className="p-4 border-t bg-gray-50 flex flex-wrap justify-between gap-2">
+                    <div className="flex items-center gap-4">
+                        <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+                        <button onClick={() => importInputRef.current?.click()} className={linkButtonClass}>Import JSON</button>
+                        <button onClick={() => downloadJson(fromBrandConfigDraft(draft), 'brand_config.json')} className={linkButtonClass}>Export JSON</button>
+                        <button onClick={() => setDraft(toBrandConfigDraft(defaultBrandConfig))} className={linkButtonClass}>Reset to defaults</button>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            Cancel
+                        </button>
+                        <button onClick={() => onSave(fromBrandConfigDraft(draft))} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            Save
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface SlotSettingsModalProps {
+  slotConfig: SlotConfig;
+  defaultSlotConfig: SlotConfig;
+  // Slot names found in the current data.
+  slotNames: string[];
+  onSave: (config: SlotConfig) => void;
+  onClose: () => void;
+}
+
+type SlotDraft = { name: string; label: string; included: boolean }[];
+
+// Configured slots keep their position; slots only seen in the data are appended in natural order.
+const toSlotDraft = (config: SlotConfig, slotNames: string[]): SlotDraft => {
+  const configured = config.order.map(name => name.toLowerCase());
+  const names = [...config.order, ...slotNames.filter(name => !configured.includes(name.toLowerCase()))];
+  const included = config.included.map(name => name.toLowerCase());
+  return names.map(name => ({
+    name,
+    label: config.labels[name] ?? '',
+    included: included.length === 0 || included.includes(name.toLowerCase()),
+  }));
+};
+
+const fromSlotDraft = (draft: SlotDraft): SlotConfig => ({
+  order: draft.map(slot => slot.name),
+  labels: Object.fromEntries(draft.filter(slot => slot.label.trim()).map(slot => [slot.name, slot.label.trim()])),
+  included: draft.every(slot => slot.included) ? [] : draft.filter(slot => slot.included).map(slot => slot.name),
+});
+
+const SlotSettingsModal: React.FC<SlotSettingsModalProps> = ({ slotConfig, defaultSlotConfig, slotNames, onSave, onClose }) => {
+    const modalRef = useRef<HTMLDivElement>(null);
+    const [draft, setDraft] = useState<SlotDraft>(() => toSlotDraft(slotConfig, slotNames));
+    useOnClickOutside(modalRef, onClose);
+    useOnEscape(onClose);
+
+    const updateSlot = (index: number, changes: Partial<SlotDraft[number]>) => {
+        setDraft(d => d.map((slot, i) => i === index ? { ...slot, ...changes } : slot));
+    };
+
+    const moveSlot = (index: number, offset: number) => {
+        setDraft(d => {
+            const target = index + offset;
+            if (target < 0 || target >= d.length) return d;
+            const slots = [...d];
+            [slots[index], slots[target]] = [slots[target], slots[index]];
+            return slots;
+        });
+    };
+
+    const inputClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+    const dataSlotNames = slotNames.map(name => name.toLowerCase());
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+                <div className="p-4 border-b">
+                    <h2 className="text-lg font-semibold text-gray-800">Slot Settings</h2>
+                    <p className="text-sm text-gray-500">Choose which crawl slots are reported, their column order and labels.</p>
+                </div>
+                <div className="p-6 overflow-y-auto">
+                    <ul className="space-y-2">
+                        {draft.map((slot, index) => (
+                            <li key={slot.name} className="flex items-center gap-2 bg-gray-50 rounded px-2 py-1 text-sm">
+                                <input type="checkbox" checked={slot.included} onChange={e => updateSlot(index, { included: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" aria-label={`Include ${slot.name}`} />
+                                <span className={`w-32 ${slot.included ? 'text-gray-700' : 'text-gray-400 line-through'}`}>
+                                    {slot.name}
+                                    {!dataSlotNames.includes(slot.name.toLowerCase()) && <span className="block text-xs text-gray-400">not in current data</span>}
+                                </span>
+                                <input value={slot.label} onChange={e => updateSlot(index, { label: e.target.value })} placeholder={getDefaultSlotLabel(slot.name)} className={inputClass} />
+                                <button onClick={() => moveSlot(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-800 disabled:text-gray-300 px-1" aria-label={`Move ${slot.name} left`}>&uarr;</button>
+                                <button onClick={() => moveSlot(index, 1)} disabled={index === draft.length - 1} className="text-gray-500 hover:text-gray-800 disabled:text-gray-300 px-1" aria-label={`Move ${slot.name} right`}>&darr;</button>
+                            </li>
+                        ))}
+                    </ul>
+                    {draft.length === 0 && <p className="text-sm text-gray-500">No slots found in the data.</p>}
+                </div>
+                <div className="p-4 border-t bg-gray-50 flex flex-wrap justify-between gap-2">
+                    <button onClick={() => setDraft(toSlotDraft(defaultSlotConfig, slotNames))} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">Reset to defaults</button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            Cancel
+                        </button>
+                        <button onClick={() => onSave(fromSlotDraft(draft))} disabled={!draft.some(slot => slot.included)} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-300 disabled:cursor-not-allowed">
+                            Save
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface DisplaySettingsModalProps {
+  displayOptions: DisplayOptions;
+  // Platforms found in the current data.
+  platforms: string[];
+  onSave: (options: DisplayOptions) => void;
+  onClose: () => void;
+}
+
+type PlatformColorDraft = { platform: string; color: string; enabled: boolean }[];
+
+const DEFAULT_PLATFORM_COLOR = '#f0f9ff';
+
+// Configured platforms keep their colour; platforms only seen in the data start uncoloured.
+const toPlatformColorDraft = (platformColors: DisplayOptions['platformColors'], platforms: string[]): PlatformColorDraft => {
+  const configured = Object.keys(platformColors).map(name => name.toLowerCase());
+  return [
+    ...Object.entries(platformColors).map(([platform, color]) => ({ platform, color, enabled: true })),
+    ...platforms.filter(platform => !configured.includes(platform.toLowerCase())).map(platform => ({ platform, color: DEFAULT_PLATFORM_COLOR, enabled: false })),
+  ];
+};
+
+const fromPlatformColorDraft = (draft: PlatformColorDraft): DisplayOptions['platformColors'] =>
+  Object.fromEntries(draft.filter(entry => entry.enabled).map(entry => [entry.platform, entry.color]));
+
+const DisplaySettingsModal: React.FC<DisplaySettingsModalProps> = ({ displayOptions, platforms, onSave, onClose }) => {
+    const modalRef = useRef<HTMLDivElement>(null);
+    const [draft, setDraft] = useState<DisplayOptions>(displayOptions);
+    const [colorDraft, setColorDraft] = useState<PlatformColorDraft>(() => toPlatformColorDraft(displayOptions.platformColors, platforms));
+    useOnClickOutside(modalRef, onClose);
+    useOnEscape(onClose);
+
+    const updatePlatform = (index: number, changes: Partial<PlatformColorDraft[number]>) => {
+        setColorDraft(d => d.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+    };
+
+    const handleReset = () => {
+        setDraft(DEFAULT_DISPLAY_OPTIONS);
+        setColorDraft(toPlatformColorDraft(DEFAULT_DISPLAY_OPTIONS.platformColors, platforms));
+    };
+
+    const selectClass = "bg-white border border-gray-300 rounded-md shadow-sm px-2 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+    const labelClass = "flex flex-col gap-1 text-xs font-medium text-gray-500";
+    const checkboxClass = "h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500";
+    const dataPlatforms = platforms.map(platform => platform.toLowerCase());
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-xl max-h-[85vh] flex flex-col">
+                <div className="p-4 border-b">
+                    <h2 className="text-lg font-semibold text-gray-800">Display Settings</h2>
+                    <p className="text-sm text-gray-500">How the SOV table colours and formats its values. The report downloads use the platform colours too.</p>
+                </div>
+                <div className="p-6 overflow-y-auto space-y-5">
+                    <div className="flex flex-wrap gap-4">
+                        <label className={labelClass}>
+                            Heatmap
+                            <select value={draft.heatmap} onChange={e => setDraft(d => ({ ...d, heatmap: e.target.value as HeatmapScope }))} className={selectClass}>
+                                {Object.values(HeatmapScope).map(scope => <option key={scope} value={scope}>{scope}</option>)}
+                            </select>
+                        </label>
+                        <label className={labelClass}>
+                            Decimal places
+                            <select value={draft.decimals} onChange={e => setDraft(d => ({ ...d, decimals: Number(e.target.value) }))} className={selectClass}>
+                                {Array.from({ length: MAX_DECIMALS + 1 }, (_, decimals) => <option key={decimals} value={decimals}>{decimals}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    <div className="space-y-2 text-sm text-gray-700">
+                        <label className="flex items-center space-x-2">
+                            <input type="checkbox" checked={draft.hideEmptyValues} onChange={e => setDraft(d => ({ ...d, hideEmptyValues: e.target.checked }))} className={checkboxClass} />
+                            <span>Leave zero and missing values blank</span>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                            <input type="checkbox" checked={draft.highlightFocusBrand} onChange={e => setDraft(d => ({ ...d, highlightFocusBrand: e.target.checked }))} className={checkboxClass} />
+                            <span>Highlight the focus brand's columns</span>
+                        </label>
+                    </div>
+                    <div>
+                        <h3 className="text-sm font-semibold text-gray-700 mb-2">Platform row colours</h3>
+                        <ul className="space-y-2">
+                            {colorDraft.map((entry, index) => (
+                                <li key={entry.platform} className="flex items-center gap-2 bg-gray-50 rounded px-2 py-1 text-sm">
+                                    <input type="checkbox" checked={entry.enabled} onChange={e => updatePlatform(index, { enabled: e.target.checked })} className={checkboxClass} aria-label={`Colour ${entry.platform} rows`} />
+                                    <span className={`flex-1 ${entry.enabled ? 'text-gray-700' : 'text-gray-400'}`}>
+                                        {entry.platform}
+                                        {!dataPlatforms.includes(entry.platform.toLowerCase()) && <span className="ml-2 text-xs text-gray-400">not in current data</span>}
+                                    </span>
+                                    <input type="color" value={entry.color} onChange={e => updatePlatform(index, { color: e.target.value, enabled: true })} className="h-7 w-10 cursor-pointer border border-gray-300 rounded" aria-label={`${entry.platform} row colour`} />
+                                </li>
+                            ))}
+                        </ul>
+                        {colorDraft.length === 0 && <p className="text-sm text-gray-500">No platforms found in the data.</p>}
+                    </div>
+                </div>
+                <div className="p-4 border-t bg-gray-50 flex flex-wrap justify-between gap-2">
+                    <button onClick={handleReset} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">Reset to defaults</button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            Cancel
+                        </button>
+                        <button onClick={() => onSave({ ...draft, platformColors: fromPlatformColorDraft(colorDraft) })} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            Save
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface DataExportModalProps {
+  defaultFileName: string;
+  getRows: (scope: ExportScope, shape: ExportShape) => object[];
+  onClose: () => void;
+}
+
+const EXPORT_SHAPE_DESCRIPTIONS: { [shape in ExportShape]: string } = {
+  [ExportShape.Raw]: 'Rows exactly as they appear in the source.',
+  [ExportShape.Cleaned]: 'Clubbed brands, taxonomy categories and normalised period and slot labels.',
+  [ExportShape.Aggregated]: 'Brand and all-brand impressions behind every SOV cell, with the resulting SOV.',
+};
+
+const DataExportModal: React.FC<DataExportModalProps> = ({ defaultFileName, getRows, onClose }) => {
+    const modalRef = useRef<HTMLDivElement>(null);
+    const [options, setOptions] = useState<DataExportOptions>({
+        scope: ExportScope.Filtered,
+        shape: ExportShape.Raw,
+        format: ExportFormat.Csv,
+        fileName: defaultFileName,
+    });
+    useOnClickOutside(modalRef, onClose);
+    useOnEscape(onClose);
+
+    const rows = useMemo(() => getRows(options.scope, options.shape), [getRows, options.scope, options.shape]);
+    const fileName = options.fileName.trim();
+
+    const handleDownload = () => {
+        downloadRows(rows, options.format, fileName);
+        onClose();
+    };
+
+    const renderChoices = <T extends string>(label: string, values: T[], selected: T, onChange: (value: T) => void) => (
+        <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">{label}</legend>
+            <div className="inline-flex items-center space-x-1 p-1 bg-gray-100 rounded-full">
+                {values.map(value => (
+                    <button
+                        key={value}
+                        onClick={() => onChange(value)}
+                        className={`px-4 py-1.5 text-sm font-semibold rounded-full transition-colors ${selected === value ? 'bg-white text-gray-800 shadow-sm' : 'bg-transparent text-gray-500 hover:bg-gray-200'}`}
+                    >
+                        {value}
+                    </button>
+                ))}
+            </div>
+        </fieldset>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+                <div className="p-4 border-b">
+                    <h2 className="text-lg font-semibold text-gray-800">Export Data</h2>
+                    <p className="text-sm text-gray-500">Download the rows behind the report for your own checks.</p>
+                </div>
+                <div className="p-6 overflow-y-auto space-y-5">
+                    {renderChoices('Rows', Object.values(ExportScope), options.scope, scope => setOptions(o => ({ ...o, scope })))}
+                    <div>
+                        {renderChoices('Shape', Object.values(ExportShape), options.shape, shape => setOptions(o => ({ ...o, shape })))}
+                        <p className="text-xs text-gray-500 mt-1">{EXPORT_SHAPE_DESCRIPTIONS[options.shape]}</p>
+                    </div>
+                    {renderChoices('Format', Object.values(ExportFormat), options.format, format => setOptions(o => ({ ...o, format })))}
+                    <label className="block">
+                        <span className="text-sm font-medium text-gray-700">File name</span>
+                        <div className="mt-1 flex items-center gap-2">
+                            <input value={options.fileName} onChange={e => setOptions(o => ({ ...o, fileName: e.target.value }))} className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500" />
+                            <span className="text-sm text-gray-500">.{EXPORT_FILE_EXTENSIONS[options.format]}</span>
+                        </div>
+                    </label>
+                </div>
+                <div className="p-4 border-t bg-gray-50 flex flex-wrap justify-between items-center gap-2">
+                    <span className="text-sm text-gray-500">{rows.length.toLocaleString()} rows</span>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            Cancel
+                        </button>
+                        <button onClick={handleDownload} disabled={!fileName || rows.length === 0} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-300 disabled:cursor-not-allowed">
+                            Download
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface RowSortControlsProps {
+  headers: TableHeaders;
+  sortOptions: RowSortOptions;
+  onChange: (options: RowSortOptions) => void;
+}
+
+const RowSortControls: React.FC<RowSortControlsProps> = ({ headers, sortOptions, onChange }) => {
+  const months = headers.months.map(m => m.name);
+  const isRankedBySov = sortOptions.mode === RowSortMode.FocusBrand || sortOptions.mode === RowSortMode.CompetitorGap;
+  const selectClass = "bg-white border border-gray-300 rounded-md shadow-sm px-2 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+  const labelClass = "flex flex-col gap-1 text-xs font-medium text-gray-500";
+
+  const handleMonthChange = (field: keyof MonthRange, value: string) => {
+    if (!value) {
+      onChange({ ...sortOptions, monthRange: null });
+      return;
+    }
+    const latest = months[months.length - 1] ?? value;
+    const current = sortOptions.monthRange ?? { from: latest, to: latest };
+    onChange({ ...sortOptions, monthRange: { ...current, [field]: value } });
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <label className={labelClass}>
+        Sort by
+        <select value={sortOptions.mode} onChange={e => onChange({ ...sortOptions, mode: e.target.value as RowSortMode })} className={selectClass}>
+          {Object.values(RowSortMode).map(mode => <option key={mode} value={mode}>{mode}</option>)}
+        </select>
+      </label>
+      {isRankedBySov && (
+        <>
+          <label className={labelClass}>
+            Focus brand
+            <select value={sortOptions.focusBrand} onChange={e => onChange({ ...sortOptions, focusBrand: e.target.value })} className={selectClass}>
+              {!headers.allBrands.includes(sortOptions.focusBrand) && <option value={sortOptions.focusBrand}>{sortOptions.focusBrand || 'None'}</option>}
+              {headers.allBrands.map(brand => <option key={brand} value={brand}>{brand}</option>)}
+            </select>
+          </label>
+          {sortOptions.mode === RowSortMode.CompetitorGap && (
+            <label className={labelClass}>
+              Competitor
+              <select value={sortOptions.competitorBrand ?? ''} onChange={e => onChange({ ...sortOptions, competitorBrand: e.target.value || null })} className={selectClass}>
+                <option value="">Strongest competitor</option>
+                {headers.allBrands.filter(brand => brand !== sortOptions.focusBrand).map(brand => <option key={brand} value={brand}>{brand}</option>)}
+              </select>
+            </label>
+          )}
+          <label className={labelClass}>
+            SOV type
+            <select value={sortOptions.sovType} onChange={e => onChange({ ...sortOptions, sovType: e.target.value as SovType })} className={selectClass}>
+              {Object.values(SovType).map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </label>
+          <label className={labelClass}>
+            From
+            <select value={sortOptions.monthRange?.from ?? ''} onChange={e => handleMonthChange('from', e.target.value)} className={selectClass}>
+              <option value="">Latest period</option>
+              {months.map(month => <option key={month} value={month}>{month}</option>)}
+            </select>
+          </label>
+          {sortOptions.monthRange && (
+            <label className={labelClass}>
+              To
+              <select value={sortOptions.monthRange.to} onChange={e => handleMonthChange('to', e.target.value)} className={selectClass}>
+                {months.map(month => <option key={month} value={month}>{month}</option>)}
+              </select>
+            </label>
+          )}
+        </>
+      )}
+      <button
+        onClick={() => onChange({ ...sortOptions, descending: !sortOptions.descending })}
+        className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+      >
+        {sortOptions.descending ? 'Descending' : 'Ascending'}
+      </button>
+    </div>
+  );
+};
+
+interface SovTableProps {
+  pivotedData: PivotedData;
+  sovType: SovType;
+  sortOptions: RowSortOptions;
+  onSortChange: (options: RowSortOptions) => void;
+  // When set, cells show the change in percentage points instead of the absolute SOV.
+  deltaOptions: DeltaOptions | null;
+  onRowClick: (row: TableRow) => void;
+  // Only set when the data has keywords to drill into.
+  onCellClick?: (cell: SovCell) => void;
+  // Scrolled into view and outlined, e.g. after following an alert.
+  highlightedCell?: CellHighlight | null;
+  displayOptions: DisplayOptions;
+  // Its column is highlighted when displayOptions.highlightFocusBrand is on.
+  focusBrand: string;
+}
+
+// A cell of the table, or every slot and brand of a row's period when slot and brand are null.
+interface CellHighlight {
+  platform: string;
+  city: string;
+  month: string;
+  slot: string | null;
+  brand: string | null;
+}
+
+const isHighlighted = (highlight: CellHighlight | null | undefined, row: TableRow, column: SovTableColumn): boolean =>
+  !!highlight && highlight.platform === row.platform && highlight.city === row.city && highlight.month === column.month
+    && (highlight.slot === null || highlight.slot === column.slot) && (highlight.brand === null || highlight.brand === column.brand);
+
+// Takes the delta as displayed, rounded to the table's decimals, so the colour always agrees with the text.
+const isSignificantDelta = (delta: number, threshold: number): boolean => delta !== 0 && Math.abs(delta) >= threshold;
+
+const getDeltaClass = (delta: number, threshold: number): string => {
+    if (delta === 0) return 'text-gray-500';
+    const isSignificant = isSignificantDelta(delta, threshold);
+    if (delta > 0) return isSignificant ? 'bg-green-100 text-green-800 font-semibold' : 'text-green-600';
+    return isSignificant ? 'bg-red-100 text-red-800 font-semibold' : 'text-red-600';
+};
+
+// Row and column sizes the virtualised SovTable lays out with. Cells are fixed-size so the visible range can be
+// worked out from the scroll position alone.
+const SOV_TABLE_ROW_HEIGHT = 52;
+const SOV_TABLE_NAME_WIDTH = 128 + 160;
+const SOV_TABLE_VALUE_WIDTH = 112;
+const OVERSCAN_ROWS = 10;
+const OVERSCAN_COLUMNS = 4;
+
+interface SovTableColumn {
+  month: string;
+  slot: string;
+  brand: string;
+  borderClass: string;
+}
+
+// Flattens the month/slot/brand header into columns, with the heavier borders between months and slots worked out once.
+const getSovTableColumns = (headers: TableHeaders): SovTableColumn[] =>
+  headers.months.flatMap((month, monthIndex) =>
+    month.slots.flatMap((slot, slotIndex) =>
+      slot.brands.map((brand, brandIndex) => {
+        let borderClass = 'border-l border-gray-200';
+        if (monthIndex > 0 && slotIndex === 0 && brandIndex === 0) {
+          borderClass = 'border-l-4 border-gray-400';
+        } else if (slotIndex > 0 && brandIndex === 0) {
+          borderClass = 'border-l-2 border-gray-400';
+        }
+        return { month: month.name, slot: slot.name, brand, borderClass };
+      })
+    )
+  );
+
+interface VisibleRange {
+  firstRow: number;
+  lastRow: number;
+  firstColumn: number;
+  lastColumn: number;
+}
+
+// Tracks which rows and columns of a scrolling table are on screen, plus some overscan. Only updates state when
+// the range changes, so scrolling within the overscan doesn't re-render the table.
+const useVisibleRange = (element: HTMLElement | null, rowCount: number, columnCount: number): VisibleRange => {
+  const [range, setRange] = useState<VisibleRange>({ firstRow: 0, lastRow: 0, firstColumn: 0, lastColumn: 0 });
+
+  useEffect(() => {
+    if (!element) return;
+    const update = () => {
+      const firstRow = Math.max(0, Math.floor(element.scrollTop / SOV_TABLE_ROW_HEIGHT) - OVERSCAN_ROWS);
+      const visibleRows = Math.ceil(element.clientHeight / SOV_TABLE_ROW_HEIGHT);
+      const firstColumn = Math.max(0, Math.floor(element.scrollLeft / SOV_TABLE_VALUE_WIDTH) - OVERSCAN_COLUMNS);
+      const visibleColumns = Math.ceil(Math.max(0, element.clientWidth - SOV_TABLE_NAME_WIDTH) / SOV_TABLE_VALUE_WIDTH);
+      const next = {
+        firstRow,
+        lastRow: Math.min(rowCount, firstRow + visibleRows + OVERSCAN_ROWS * 2),
+        firstColumn,
+        lastColumn: Math.min(columnCount, firstColumn + visibleColumns + OVERSCAN_COLUMNS * 2),
+      };
+      setRange(current =>
+        current.firstRow === next.firstRow && current.lastRow === next.lastRow
+          && current.firstColumn === next.firstColumn && current.lastColumn === next.lastColumn ? current : next);
+    };
+    update();
+    element.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => {
+      element.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [element, rowCount, columnCount]);
+
+  return range;
+};
+
+interface SovTableCellProps {
+  row: TableRow;
+  column: SovTableColumn;
+  headers: TableHeaders;
+  sovType: SovType;
+  deltaOptions: DeltaOptions | null;
+  rowBorderClass: string;
+  isHighlighted: boolean;
+  decimals: number;
+  hideEmptyValues: boolean;
+  isFocusColumn: boolean;
+  heatmapColor?: string;
+  onCellClick?: (cell: SovCell) => void;
+}
+
+// Memoised so scrolling only renders the cells that come into view; every prop is stable between scroll updates.
+const SovTableCell: React.FC<SovTableCellProps> = React.memo(({ row, column, headers, sovType, deltaOptions, rowBorderClass, isHighlighted, decimals, hideEmptyValues, isFocusColumn, heatmapColor, onCellClick }) => {
+  const { month, slot, brand, borderClass } = column;
+  const sovData = row.data[month]?.[slot]?.[brand];
+  const weightClass = row.rowType !== TableRowType.City || isFocusColumn ? 'font-semibold' : '';
+  const highlightClass = isHighlighted ? 'ring-2 ring-inset ring-red-500' : '';
+  // A cell that already has a background (heatmap or significant change) edges the focus column in yellow instead of tinting it.
+  const getFocusClass = (hasBackground: boolean) => !isFocusColumn ? '' : hasBackground ? 'shadow-[inset_2px_0_0_#facc15,inset_-2px_0_0_#facc15]' : 'bg-yellow-50';
+  const cellClass = `px-4 py-3 text-center text-sm whitespace-nowrap border-b border-gray-200 ${rowBorderClass} ${borderClass} ${highlightClass}`;
+  const cellStyle = heatmapColor ? { backgroundColor: heatmapColor } : undefined;
+  const emptyValue = hideEmptyValues ? '' : '-';
+  const handleCellClick = onCellClick && ((e: React.MouseEvent) => {
+    e.stopPropagation();
+    onCellClick({ platform: row.platform, city: row.city, month, slot, brand });
+  });
+  const cellClickClass = onCellClick ? 'cursor-zoom-in hover:ring-2 hover:ring-inset hover:ring-indigo-300' : '';
+
+  if (sovData === undefined) {
+    return <td className={`${cellClass} ${getFocusClass(false)} text-gray-500`}>{emptyValue}</td>;
+  }
+
+  if (deltaOptions) {
+    const delta = getSovDelta(row, headers, month, slot, brand, sovType, deltaOptions);
+    // A brand at 0% in both periods hasn't moved, it just isn't there.
+    if (delta === null || (hideEmptyValues && delta === 0 && sovData[sovType] === 0)) {
+      return <td className={`${cellClass} ${getFocusClass(false)} text-gray-400`}>{emptyValue}</td>;
+    }
+    // Rounded once, so the arrow, the colour and the text all describe the same number.
+    const shownDelta = Number(delta.toFixed(decimals));
+    const { significanceThreshold } = deltaOptions;
+    const focusClass = getFocusClass(!!heatmapColor || isSignificantDelta(shownDelta, significanceThreshold));
+    return (
+      <td onClick={handleCellClick} title={`${sovData[sovType].toFixed(decimals)}%${onCellClick ? ' \u00B7 click for keywords' : ''}`} style={cellStyle} className={`${cellClass} ${focusClass} ${weightClass} ${getDeltaClass(shownDelta, significanceThreshold)} ${cellClickClass}`}>
+        {shownDelta > 0 ? '\u25B2 +' : shownDelta < 0 ? '\u25BC ' : ''}{shownDelta.toFixed(decimals)} pp
+      </td>
+    );
+  }
+
+  if (hideEmptyValues && sovData[sovType] === 0) {
+    return <td className={`${cellClass} ${getFocusClass(false)}`} />;
+  }
+
+  return (
+    <td onClick={handleCellClick} title={onCellClick ? 'Show keywords' : undefined} style={cellStyle} className={`${cellClass} ${getFocusClass(!!heatmapColor)} text-gray-700 ${weightClass} ${cellClickClass}`}>
+      {sovData[sovType].toFixed(decimals)}%
+    </td>
+  );
+});
+
+// The month and slot header cells that overlap the visible columns, clipped to them.
+const getVisibleHeaderSpans = (
+  columns: SovTableColumn[],
+  firstColumn: number,
+  lastColumn: number,
+  getKey: (column: SovTableColumn) => string
+): { key: string; column: SovTableColumn; span: number }[] => {
+  const spans: { key: string; column: SovTableColumn; span: number }[] = [];
+  for (let i = firstColumn; i < lastColumn; i++) {
+    const key = getKey(columns[i]);
+    const last = spans[spans.length - 1];
+    if (last && last.key === key) {
+      last.span++;
+    } else {
+      spans.push({ key, column: columns[i], span: 1 });
+    }
+  }
+  return spans;
+};
+
+const SovTable: React.FC<SovTableProps> = ({ pivotedData, sovType, sortOptions, onSortChange, deltaOptions, onRowClick, onCellClick, highlightedCell, displayOptions, focusBrand }) => {
+    const { headers, rows } = pivotedData;
+    const [scrollElement, setScrollElement] = useState<HTMLDivElement | null>(null);
+    const columns = useMemo(() => getSovTableColumns(headers), [headers]);
+    // Changes are coloured red to green around zero; SOVs from white up to green.
+    const getHeatmapColor = useMemo(() => createHeatmap(
+        pivotedData,
+        displayOptions.heatmap,
+        deltaOptions
+            ? (row, month, slot, brand) => getSovDelta(row, headers, month, slot, brand, sovType, deltaOptions)
+            : (row, month, slot, brand) => row.data[month]?.[slot]?.[brand]?.[sovType] ?? null,
+        deltaOptions !== null
+    ), [pivotedData, headers, displayOptions.heatmap, deltaOptions, sovType]);
+    const isFocusColumn = (brand: string) => displayOptions.highlightFocusBrand && brand === focusBrand;
+    const { firstRow, lastRow, firstColumn, lastColumn } = useVisibleRange(scrollElement, rows.length, columns.length);
+
+    // Centres a newly highlighted cell. Only runs when the highlight changes, so a re-pivot doesn't scroll back to it.
+    useEffect(() => {
+        if (!scrollElement || !highlightedCell) return;
+        const rowIndex = rows.findIndex(row => row.platform === highlightedCell.platform && row.city === highlightedCell.city);
+        if (rowIndex === -1) return;
+        const columnIndex = columns.findIndex(column => isHighlighted(highlightedCell, rows[rowIndex], column));
+        if (columnIndex === -1) return;
+        scrollElement.scrollTo({
+            top: rowIndex * SOV_TABLE_ROW_HEIGHT - (scrollElement.clientHeight - SOV_TABLE_ROW_HEIGHT) / 2,
+            left: columnIndex * SOV_TABLE_VALUE_WIDTH - (scrollElement.clientWidth - SOV_TABLE_NAME_WIDTH - SOV_TABLE_VALUE_WIDTH) / 2,
+            behavior: 'smooth',
+        });
+    }, [scrollElement, highlightedCell]);
+
+    // Clicking the active column again flips the direction; a new column starts with the highest values first.
+    const handleBrandHeaderClick = (month: string, brand: string) => {
+        const isActive = sortOptions.mode === RowSortMode.FocusBrand && sortOptions.focusBrand === brand && sortOptions.sovType === sovType
+            && sortOptions.monthRange?.from === month && sortOptions.monthRange?.to === month;
+        onSortChange({
+            ...sortOptions,
+            mode: RowSortMode.FocusBrand,
+            focusBrand: brand,
+            sovType,
+            monthRange: { from: month, to: month },
+            descending: isActive ? !sortOptions.descending : true,
+        });
+    };
+
+    const handleNameHeaderClick = (mode: RowSortMode.Platform | RowSortMode.City) => {
+        onSortChange({ ...sortOptions, mode, descending: sortOptions.mode === mode ? !sortOptions.descending : false });
+    };
+
+    const getSortIndicator = (isActive: boolean) => isActive ? (sortOptions.descending ? ' \u25BC' : ' \u25B2') : '';
+
+    if (rows.length === 0) {
+        return <div className="text-center py-10 bg-white rounded-lg shadow-md">No data available for the selected categories.</div>
+    }
+
+    const visibleColumns = columns.slice(firstColumn, lastColumn);
+    const leftPadding = firstColumn * SOV_TABLE_VALUE_WIDTH;
+    const rightPadding = (columns.length - lastColumn) * SOV_TABLE_VALUE_WIDTH;
+    const totalColumns = 2 + visibleColumns.length + 2;
+    const monthSpans = getVisibleHeaderSpans(columns, firstColumn, lastColumn, column => column.month);
+    const slotSpans = getVisibleHeaderSpans(columns, firstColumn, lastColumn, column => `${column.month}|${column.slot}`);
+
+    return (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div ref={setScrollElement} className="overflow-auto w-full border-t border-gray-200 max-h-[75vh]">
+                {/* Fixed layout and separate borders keep every row exactly SOV_TABLE_ROW_HEIGHT tall, which the virtualisation relies on. */}
+                <table className="bg-white table-fixed border-separate border-spacing-0" style={{ width: SOV_TABLE_NAME_WIDTH + columns.length * SOV_TABLE_VALUE_WIDTH }}>
+                    <colgroup>
+                        <col style={{ width: 128 }} />
+                        <col style={{ width: 160 }} />
+                        <col style={{ width: leftPadding }} />
+                        {visibleColumns.map(column => <col key={`${column.month}-${column.slot}-${column.brand}`} style={{ width: SOV_TABLE_VALUE_WIDTH }} />)}
+                        <col style={{ width: rightPadding }} />
+                    </colgroup>
+                    <thead className="bg-gray-50 sticky top-0 z-20">
+                        <tr>
+                            <th scope="col" rowSpan={3} onClick={() => handleNameHeaderClick(RowSortMode.Platform)} className="sticky left-0 bg-gray-50 z-30 px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider border-r border-b border-gray-200 cursor-pointer hover:bg-gray-100">Platform{getSortIndicator(sortOptions.mode === RowSortMode.Platform)}</th>
+                            <th scope="col" rowSpan={3} onClick={() => handleNameHeaderClick(RowSortMode.City)} className="sticky left-32 bg-gray-50 z-30 px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider border-r border-b border-gray-200 cursor-pointer hover:bg-gray-100">City{getSortIndicator(sortOptions.mode === RowSortMode.City)}</th>
+                            <th rowSpan={3} className="p-0 border-b border-gray-200" aria-hidden="true" />
+                            {monthSpans.map(({ key, column, span }) => (
+                                <th key={key} colSpan={span} className={`px-6 py-3 text-center text-xs font-bold text-gray-600 uppercase tracking-wider truncate border-b border-gray-200 ${column.borderClass}`}>
+                                    {column.month}
+                                </th>
+                            ))}
+                            <th rowSpan={3} className="p-0 border-b border-gray-200" aria-hidden="true" />
+                        </tr>
+                        <tr>
+                            {slotSpans.map(({ key, column, span }) => (
+                                <th key={key} colSpan={span} className={`px-6 py-3 text-center text-xs font-semibold text-gray-500 truncate border-b border-gray-200 ${column.borderClass}`}>
+                                    {column.slot}
+                                </th>
+                            ))}
+                        </tr>
+                        <tr>
+                            {visibleColumns.map(({ month, slot, brand, borderClass }) => {
+                                const isSortedColumn = sortOptions.mode === RowSortMode.FocusBrand && sortOptions.focusBrand === brand
+                                    && sortOptions.sovType === sovType && sortOptions.monthRange?.from === month && sortOptions.monthRange?.to === month;
+                                return (
+                                    <th key={`${month}-${slot}-${brand}`} scope="col" onClick={() => handleBrandHeaderClick(month, brand)} title={`Sort cities by ${brand} ${sovType} in ${month}`} className={`px-4 py-3 text-center text-xs font-medium truncate border-b border-gray-200 cursor-pointer hover:bg-gray-100 ${isSortedColumn ? 'text-indigo-600' : 'text-gray-500'} ${isFocusColumn(brand) ? 'bg-yellow-100' : ''} ${borderClass}`}>
+                                        {brand}{getSortIndicator(isSortedColumn)}
+                                    </th>
+                                );
+                            })}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {firstRow > 0 && <tr aria-hidden="true" style={{ height: firstRow * SOV_TABLE_ROW_HEIGHT }}><td colSpan={totalColumns} className="p-0" /></tr>}
+                        {rows.slice(firstRow, lastRow).map((row, index) => {
+                            const rowIndex = firstRow + index;
+                            const isAggregate = row.rowType !== TableRowType.City;
+                            let platformColor = getPlatformColor(displayOptions.platformColors, row.platform);
+                            let platformBgClass = platformColor ? '' : 'bg-white';
+                            let platformHoverBgClass = platformColor ? 'hover:brightness-95' : 'hover:bg-gray-50';
+                            if (row.rowType === TableRowType.GrandTotal) {
+                                platformColor = undefined;
+                                platformBgClass = 'bg-indigo-50';
+                                platformHoverBgClass = 'hover:bg-indigo-100';
+                            } else if (row.rowType === TableRowType.PlatformTotal) {
+                                platformColor = undefined;
+                                platformBgClass = 'bg-gray-100';
+                                platformHoverBgClass = 'hover:bg-gray-200';
+                            }
+                            // Borders sit on the cells: rows don't draw borders in the separate border model.
+                            const rowBorderClass = row.isFirstInPlatform && rowIndex > 0 ? 'border-t-4 border-t-gray-400' : '';
+                            const nameCellClass = `sticky z-10 px-6 py-3 whitespace-nowrap text-sm truncate border-r border-b border-gray-200 ${rowBorderClass} ${platformBgClass} ${platformHoverBgClass}`;
+
+                            return (
+                                <tr key={`${row.platform}-${row.city}`} onClick={() => onRowClick(row)} title="Show trend chart" style={{ height: SOV_TABLE_ROW_HEIGHT, backgroundColor: platformColor }} className={`cursor-pointer ${platformBgClass} ${platformHoverBgClass}`}>
+                                    <td style={{ backgroundColor: platformColor }} className={`left-0 font-medium text-gray-900 ${nameCellClass} ${isAggregate ? 'font-bold' : ''}`}>{row.platform}</td>
+                                    <td style={{ backgroundColor: platformColor }} className={`left-32 ${nameCellClass} ${isAggregate ? 'font-semibold text-gray-700' : 'text-gray-500'}`}>{row.city}</td>
+                                    <td className={`p-0 border-b border-gray-200 ${rowBorderClass}`} />
+                                    {visibleColumns.map(column => (
+                                        <SovTableCell
+                                            key={`${column.month}-${column.slot}-${column.brand}`}
+                                            row={row}
+                                            column={column}
+                                            headers={headers}
+                                            sovType={sovType}
+                                            deltaOptions={deltaOptions}
+                                            rowBorderClass={rowBorderClass}
+                                            isHighlighted={isHighlighted(highlightedCell, row, column)}
+                                            decimals={displayOptions.decimals}
+                                            hideEmptyValues={displayOptions.hideEmptyValues}
+                                            isFocusColumn={isFocusColumn(column.brand)}
+                                            heatmapColor={getHeatmapColor(row, column.month, column.slot, column.brand)}
+                                            onCellClick={onCellClick}
+                                        />
+                                    ))}
+                                    <td className={`p-0 border-b border-gray-200 ${rowBorderClass}`} />
+                                </tr>
+                            )
+                        })}
+                        {lastRow < rows.length && <tr aria-hidden="true" style={{ height: (rows.length - lastRow) * SOV_TABLE_ROW_HEIGHT }}><td colSpan={totalColumns} className="p-0" /></tr>}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+
+const SAMPLE_ROWS_PER_ISSUE = 5;
+
+interface DataQualityPanelProps {
+    report: DataQualityReport;
+    // Rows the current time options leave out for want of a crawl date.
+    excludedUndatedRows: number;
+}
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report, excludedUndatedRows }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const issuesByType = Object.values(DataIssueType)
+        .map(type => ({ type, issues: report.issues.filter(issue => issue.type === type) }))
+        .filter(group => group.issues.length > 0);
+    const undatedNotice = excludedUndatedRows > 0 && (
+        <p className="text-sm text-amber-700">
+            {excludedUndatedRows.toLocaleString()} rows have no usable CRAWL_DATE and are left out of this view.
+        </p>
+    );
+
+    if (report.issues.length === 0) {
+        return (
+            <div className="bg-white px-6 py-3 rounded-lg shadow-md space-y-1">
+                <p className="text-sm text-green-700">All {report.totalRows.toLocaleString()} rows passed validation.</p>
+                {undatedNotice}
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-white rounded-lg shadow-md border-l-4 border-amber-400">
+            <div className="px-6 py-3 flex flex-wrap justify-between items-center gap-3">
+                <div className="space-y-1">
+                    <p className="text-sm text-gray-700">
+                        <span className="font-semibold text-amber-700">{report.invalidRows.toLocaleString()} of {report.totalRows.toLocaleString()} rows</span> have data issues
+                        and may be missing from or misstated in the report.
+                    </p>
+                    {undatedNotice}
+                </div>
+                <div className="flex items-center gap-3">
+                    <button onClick={() => downloadCsv(getIssueCsvRows(report), 'data_quality_issues.csv')} className="flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                        <DownloadIcon /> Download Issues
+                    </button>
+                    <button onClick={() => setIsExpanded(!isExpanded)} className="text-sm font-medium text-gray-600 hover:text-gray-800">
+                        {isExpanded ? 'Hide details' : 'Show details'}
+                    </button>
+                </div>
+            </div>
+            {isExpanded && (
+                <div className="px-6 pb-6 space-y-5 border-t pt-4">
+                    {issuesByType.map(({ type, issues }) => (
+                        <div key={type}>
+                            <h3 className="text-sm font-semibold text-gray-700">{type} <span className="font-normal text-gray-500">&middot; {issues.length.toLocaleString()}</span></h3>
+                            <table className="mt-2 w-full text-xs text-left">
+                                <thead className="text-gray-500">
+                                    <tr>
+                                        <th className="py-1 pr-3 font-medium">Row</th>
+                                        <th className="py-1 pr-3 font-medium">Platform / City</th>
+                                        <th className="py-1 pr-3 font-medium">Brand</th>
+                                        <th className="py-1 font-medium">Problem</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-gray-700">
+                                    {issues.slice(0, SAMPLE_ROWS_PER_ISSUE).map((issue, index) => (
+                                        <tr key={index} className="border-t border-gray-100">
+                                            <td className="py-1 pr-3 font-mono">{issue.rowNumber}</td>
+                                            <td className="py-1 pr-3">{issue.row.GC_PLATFORM || '\u2014'} / {issue.row.CITY || '\u2014'}</td>
+                                            <td className="py-1 pr-3">{issue.row.BRAND || '\u2014'}</td>
+                                            <td className="py-1">{issue.detail}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {issues.length > SAMPLE_ROWS_PER_ISSUE && (
+                                <p className="mt-1 text-xs text-gray-500">and {(issues.length - SAMPLE_ROWS_PER_ISSUE).toLocaleString()} more in the download.</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 
-// --- HELPER COMPONENTS ---
+const MAX_ALERTS_PER_RULE = 10;
 
-interface MultiSelectDropdownProps {
-  allCategories: string[];
-  selectedCategories: string[];
-  setSelectedCategories: React.Dispatch<React.SetStateAction<string[]>>;
+interface AlertsPanelProps {
+    hits: AlertHit[];
+    rules: AlertRule[];
+    headers: TableHeaders;
+    onSelect: (hit: AlertHit) => void;
+    onEditRules: () => void;
 }
 
-const MultiSelectDropdown: React.FC<MultiSelectDropdownProps> = ({ allCategories, selectedCategories, setSelectedCategories }) => {
-  const [isOpen, setIsOpen] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const dropdownRef = useRef<HTMLDivElement>(null);
-  useOnClickOutside(dropdownRef, () => setIsOpen(false));
-
-  const filteredCategories = allCategories.filter(cat => cat.toLowerCase().includes(searchTerm.toLowerCase()));
-  const isAllSelected = allCategories.length > 0 && selectedCategories.length === allCategories.length;
-
-  const handleSelectAll = () => {
-    if (isAllSelected) {
-      setSelectedCategories([]);
-    } else {
-      setSelectedCategories(allCategories);
-    }
-  };
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ hits, rules, headers, onSelect, onEditRules }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const periods = headers.months.map(m => m.name);
+    const hitsByRule = rules
+        .map(rule => ({ rule, hits: hits.filter(hit => hit.ruleId === rule.id) }))
+        .filter(group => group.hits.length > 0);
+    const editRulesButton = (
+        <button onClick={onEditRules} className="text-sm font-medium text-gray-600 hover:text-gray-800">Edit rules</button>
+    );
 
-  const handleCategoryToggle = (category: string) => {
-    if (selectedCategories.includes(category)) {
-      setSelectedCategories(selectedCategories.filter(c => c !== category));
-    } else {
-      setSelectedCategories([...selectedCategories, category]);
+    if (periods.length < 2 || hits.length === 0) {
+        return (
+            <div className="bg-white px-6 py-3 rounded-lg shadow-md text-sm text-gray-600 flex flex-wrap justify-between items-center gap-3">
+                <span>
+                    {periods.length < 2
+                        ? 'Alerts compare the latest period with the one before; the current filters cover only one period.'
+                        : `No alerts: none of the ${rules.filter(rule => rule.enabled).length} active rules fired between ${periods[periods.length - 2]} and ${periods[periods.length - 1]}.`}
+                </span>
+                {editRulesButton}
+            </div>
+        );
     }
-  };
-
-  return (
-    <div className="relative w-full" ref={dropdownRef}>
-      <button onClick={() => setIsOpen(!isOpen)} className="bg-white border border-gray-300 rounded-md shadow-sm pl-3 pr-10 py-2 text-left cursor-default focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm w-full flex justify-between items-center">
-        <span className="block truncate">{selectedCategories.length === 0 ? 'Select Category...' : `${selectedCategories.length} selected`}</span>
-        <span className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
-          <svg className="h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
-            <path fillRule="evenodd" d="M10 3a1 1 0 01.707.293l3 3a1 1 0 01-1.414 1.414L10 5.414 7.707 7.707a1 1 0 01-1.414-1.414l3-3A1 1 0 0110 3zm-3.707 9.293a1 1 0 011.414 0L10 14.586l2.293-2.293a1 1 0 011.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
-          </svg>
-        </span>
-      </button>
 
-      {isOpen && (
-        <div className="absolute mt-1 w-full rounded-md bg-white shadow-lg z-40">
-          <div className="p-2">
-            <input type="text" placeholder="Search..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="w-full px-2 py-1 border border-gray-300 rounded-md"/>
-          </div>
-          <ul className="max-h-60 overflow-auto">
-            <li className="p-2 border-b border-gray-200">
-              <label className="flex items-center space-x-3 cursor-pointer">
-                <input type="checkbox" checked={isAllSelected} onChange={handleSelectAll} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
-                <span className="font-semibold text-gray-900">Select All</span>
-              </label>
-            </li>
-            {filteredCategories.map(category => (
-              <li key={category} className="text-gray-900 cursor-default select-none relative py-2 pl-3 pr-9 hover:bg-gray-100">
-                 <label className="flex items-center space-x-3 cursor-pointer">
-                    <input type="checkbox" checked={selectedCategories.includes(category)} onChange={() => handleCategoryToggle(category)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
-                    <span>{category}</span>
-                </label>
-              </li>
-            ))}
-          </ul>
+    return (
+        <div className="bg-white rounded-lg shadow-md border-l-4 border-red-400">
+            <div className="px-6 py-3 flex flex-wrap justify-between items-center gap-3">
+                <p className="text-sm text-gray-700">
+                    <span className="font-semibold text-red-700">{hits.length.toLocaleString()} {hits.length === 1 ? 'alert' : 'alerts'}</span> between {periods[periods.length - 2]} and {periods[periods.length - 1]}.
+                </p>
+                <div className="flex items-center gap-3">
+                    <button onClick={() => downloadCsv(getAlertExportRows(hits, rules), 'sov_alerts.csv')} className="flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                        <DownloadIcon /> Download Alerts
+                    </button>
+                    {editRulesButton}
+                    <button onClick={() => setIsExpanded(!isExpanded)} className="text-sm font-medium text-gray-600 hover:text-gray-800">
+                        {isExpanded ? 'Hide alerts' : 'Show alerts'}
+                    </button>
+                </div>
+            </div>
+            {isExpanded && (
+                <div className="px-6 pb-6 space-y-5 border-t pt-4">
+                    {hitsByRule.map(({ rule, hits: ruleHits }) => (
+                        <div key={rule.id}>
+                            <h3 className="text-sm font-semibold text-gray-700">{describeAlertRule(rule)} <span className="font-normal text-gray-500">&middot; {ruleHits.length.toLocaleString()}</span></h3>
+                            <ul className="mt-2 text-xs text-gray-700">
+                                {ruleHits.slice(0, MAX_ALERTS_PER_RULE).map((hit, index) => (
+                                    <li key={index} className="border-t border-gray-100">
+                                        <button onClick={() => onSelect(hit)} title="Show in table" className="w-full text-left py-1 flex gap-3 hover:bg-indigo-50">
+                                            <span className="w-48 shrink-0 font-medium">{hit.platform} / {hit.city}</span>
+                                            <span>{hit.message}</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                            {ruleHits.length > MAX_ALERTS_PER_RULE && (
+                                <p className="mt-1 text-xs text-gray-500">and {(ruleHits.length - MAX_ALERTS_PER_RULE).toLocaleString()} more in the download.</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
         </div>
-      )}
-    </div>
-  );
+    );
 };
 
+interface AlertRulesModalProps {
+    rules: AlertRule[];
+    onSave: (rules: AlertRule[]) => void;
+    onClose: () => void;
+}
 
-const CategoryInfoModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+const AlertRulesModal: React.FC<AlertRulesModalProps> = ({ rules, onSave, onClose }) => {
     const modalRef = useRef<HTMLDivElement>(null);
+    const [draft, setDraft] = useState<AlertRule[]>(rules);
     useOnClickOutside(modalRef, onClose);
+    useOnEscape(onClose);
 
-    useEffect(() => {
-        const handleEsc = (event: KeyboardEvent) => {
-            if (event.key === 'Escape') {
-                onClose();
-            }
-        };
-        window.addEventListener('keydown', handleEsc);
-        return () => window.removeEventListener('keydown', handleEsc);
-    }, [onClose]);
-
-    const rawSql = `CASE
- WHEN f.keyword IN ('millet bread', 'pita bread', 'sandwich bread', 'sub bread', 'cream bread', 'bread multigrain', 'sourdough bread', 'fruit bread', 'bread stick', 'bread loaf', 'protein bread', 'ragi bread', 'sour dough bread', 'the health factory multi protein bread') THEN 'Bread - Speciality'
- WHEN f.keyword IN ('brown bread', 'bread brown') THEN 'Brown Bread'
- WHEN f.keyword IN ('pav', 'paav', 'milk pav', 'buns and pav', 'modern pav', 'vada pav', 'wow pav', 'whole wheat pav', 'atta pav', 'pav bhaji bread', 'harvest pav', 'britannia pav', 'mumbai pav', 'zero maida pav', 'ladi pav', 'bombay pav', 'pav bread', 'wheat pav', 'pav buns', 'pav bhaji') THEN 'Pav'
- WHEN f.keyword IN ('bread wheat', 'multi grain bread', 'bread atta', 'no maida bread', 'multigrain bread', 'gluten free bread', 'whole wheat bread', 'atta bread', 'wheat bread', 'whole grain bread') THEN 'Atta/Whole Wheat Bread'
- WHEN f.keyword IN ('bread', 'breads', 'bread small', 'fresh bread', 'milk bread', 'jumbo bread', 'slice bread', 'white bread', 'healthy bread', 'vegan bread', 'high protein bread', 'breakfast bread', 'elite bread', 'whole bread', 'half bread', 'small bread') THEN 'Bread - Generic'
- WHEN f.keyword IN ('modern sandwich bread', 'harvest bread', 'modern bread', 'english oven brown bread', 'modern milk bread', 'harvest gold bread') THEN 'Bread - Branded'
- WHEN f.keyword IN ('navya bread', 'britannia bread', 'britannia milk bread', 'britannia multigrain bread', 'britannia brown bread', 'kwality bread', 'bonn brown bread', 'wibs bread', 'the health factory bread', 'suchali bread', 'bonn bread', 'amul bread', 'bakers dozen bread', 'english bread', 'id bread') THEN 'Bread - Comp.'
- WHEN f.keyword IN ('hotdog bun', 'hot dog bun') THEN 'Hot Dog'
- WHEN f.keyword IN ('footlong', 'sub footlong') THEN 'Footlong'
- WHEN f.keyword IN ('pizza base', 'wheat pizza base', 'zero maida pizza base', 'english oven pizza base', 'modern pizza base', 'the health factory zero maida pizza base') THEN 'Pizza Base'
- WHEN f.keyword IN ('kulcha', 'atta kulcha', 'kulcha bread', 'harvest kulcha') THEN 'Kulcha'
- WHEN f.keyword IN ('bun', 'danish bun', 'cream bun', 'fruit bun', 'sweet bun', 'cream buns', 'sweet buns', 'vanilla cream bun', 'wheat bun', 'english oven buns', 'bread and buns', 'buns', 'britannia bun', 'raisin bun', 'navya bun', 'bao bun') THEN 'Bun'
- WHEN f.keyword IN ('burger buns', 'burger bun', 'burger bread', 'english oven burger buns', 'atta burger buns') THEN 'Burger Bun'
- WHEN f.keyword IN ('rusk', 'garlic rusk', 'rusk toast', 'suji rusk', 'butter toast', 'healthy rusk', 'toast bread', 'cake rusk', 'toast', 'bakery rusk', 'fruit cake rusk') THEN 'Rusk'
- WHEN f.keyword IN ('garlic bread', 'bonn garlic bread', 'garlic toast', 'cheese garlic bread', 'the health factory zero maida garlic bread') THEN 'Garlic Bread'
- WHEN f.keyword IN ('cupcake', 'cupcakes') THEN 'Cupcakes'
- WHEN f.keyword IN ('muffin') THEN 'Muffins'
- WHEN f.keyword IN ('dry cake', 'christmas fruit cake') THEN 'Dry Cakes'
- WHEN f.keyword IN ('cake', 'veg cake', 'unibic cake', 'vanilla cake', 'mawa cake', 'ice cream cake', 'mother''s day cake', 'britannia cake', 'father''s day cake', 'eggless cake', 'bakery cake', 'cheesecake', 'cake mix', 'caketale', 'pastry', 'banana walnut cake', 'jar cake', 'walnut cake', 'plum cake', 'eggless cake mix', 'birthday cake', 'marble cake', 'milk cake') THEN 'Cakes - Miscellaneous'
- WHEN f.keyword = 'bread brown' THEN 'Brown Bread'
- WHEN f.keyword IN ('paratha', 'lachha paratha', 'wheat roti') THEN 'Plain Parathas & Rotis'
- ELSE 'Others'
-END AS category`;
-
-    const parseSql = () => {
-        const definitions: { [key: string]: string[] } = {};
-        const lines = rawSql.split('\n');
-        
-        lines.forEach(line => {
-            const match = line.trim().match(/WHEN f\.keyword (?:IN \((.*?)\)|= '(.*?)') THEN '(.*?)'/);
-            if (match) {
-                const keywordsRaw = match[1] || match[2];
-                const category = match[3];
-                const keywords = keywordsRaw.split(',').map(k => k.trim().replace(/'/g, ''));
-                
-                if (!definitions[category]) {
-                    definitions[category] = [];
-                }
-                definitions[category].push(...keywords);
-            }
-        });
-
-        // Consolidate unique keywords per category
-        for (const category in definitions) {
-            definitions[category] = [...new Set(definitions[category])];
-        }
+    const updateRule = (index: number, changes: Partial<AlertRule>) => {
+        setDraft(d => d.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+    };
 
-        return definitions;
+    const addRule = () => {
+        setDraft(d => [...d, { id: crypto.randomUUID(), type: AlertRuleType.SovDrop, brands: AlertBrandTarget.FocusBrand, sovType: SovType.Overall, threshold: 5, enabled: true }]);
     };
 
-    const definitions = parseSql();
+    const selectClass = "bg-white border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100 disabled:text-gray-400";
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
-            <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col">
+            <div ref={modalRef} className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col">
                 <div className="p-4 border-b">
-                    <h2 className="text-lg font-semibold text-gray-800">Category Definitions</h2>
-                    <p className="text-sm text-gray-500">How keywords are grouped into categories.</p>
+                    <h2 className="text-lg font-semibold text-gray-800">Alert Rules</h2>
+                    <p className="text-sm text-gray-500">Each rule compares the latest period of the report with the one before, for the rows and brands on screen.</p>
                 </div>
-                <div className="p-6 overflow-y-auto space-y-4">
-                    {Object.entries(definitions).map(([category, keywords]) => (
-                        <div key={category}>
-                            <h3 className="font-semibold text-gray-700">{category}</h3>
-                            <div className="flex flex-wrap gap-1 mt-2">
-                                {keywords.map(kw => (
-                                    <span key={kw} className="bg-gray-100 text-gray-700 text-xs font-mono px-2 py-1 rounded">
-                                        {kw}
-                                    </span>
-                                ))}
-                            </div>
-                        </div>
-                    ))}
+                <div className="p-6 overflow-y-auto">
+                    <ul className="space-y-2">
+                        {draft.map((rule, index) => {
+                            const isMissingRule = rule.type === AlertRuleType.MissingFromLatest;
+                            return (
+                                <li key={rule.id} className="flex flex-wrap items-center gap-2 bg-gray-50 rounded px-2 py-1 text-sm">
+                                    <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(index, { enabled: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" aria-label="Enable rule" />
+                                    <select value={rule.brands} onChange={e => updateRule(index, { brands: e.target.value as AlertBrandTarget })} disabled={isMissingRule} className={selectClass} aria-label="Brands">
+                                        {Object.values(AlertBrandTarget).map(target => <option key={target} value={target}>{target}</option>)}
+                                    </select>
+                                    <select value={rule.sovType} onChange={e => updateRule(index, { sovType: e.target.value as SovType })} disabled={isMissingRule} className={selectClass} aria-label="SOV type">
+                                        {Object.values(SovType).map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    <select value={rule.type} onChange={e => updateRule(index, { type: e.target.value as AlertRuleType })} className={selectClass} aria-label="Condition">
+                                        {Object.values(AlertRuleType).map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    {!isMissingRule && (
+                                        <label className="flex items-center gap-1 text-gray-600">
+                                            <input type="number" min={0} step={rule.type === AlertRuleType.SovMultiplied ? 0.5 : 1} value={rule.threshold} onChange={e => updateRule(index, { threshold: Math.max(0, parseFloat(e.target.value) || 0) })} className={`${selectClass} w-20`} aria-label="Threshold" />
+                                            {rule.type === AlertRuleType.SovMultiplied ? '\u00D7' : 'pp'}
+                                        </label>
+                                    )}
+                                    <span className="flex-1 text-xs text-gray-500">{describeAlertRule(rule)}</span>
+                                    <button onClick={() => setDraft(d => d.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-600 px-1" aria-label="Remove rule">&times;</button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    {draft.length === 0 && <p className="text-sm text-gray-500">No rules. Add one to start getting alerts.</p>}
+                    <button onClick={addRule} className="mt-3 text-sm font-medium text-indigo-600 hover:text-indigo-800">+ Add rule</button>
                 </div>
-                <div className="p-4 border-t bg-gray-50 flex justify-end">
-                    <button onClick={onClose} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
-                        Close
-                    </button>
+                <div className="p-4 border-t bg-gray-50 flex flex-wrap justify-between gap-2">
+                    <button onClick={() => setDraft(DEFAULT_ALERT_RULES)} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">Reset to defaults</button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            Cancel
+                        </button>
+                        <button onClick={() => onSave(draft)} className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            Save
+                        </button>
+                    </div>
                 </div>
             </div>
         </div>
     );
 };
 
-interface SovTableProps {
-  pivotedData: PivotedData;
-  sovType: SovType;
+const MAX_BENCHMARK_ROWS = 200;
+
+const formatGap = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)} pp`;
+const getGapClass = (value: number) => value < 0 ? 'text-red-600' : value > 0 ? 'text-green-600' : 'text-gray-500';
+const formatPaidShare = (value: number | null) => value === null ? '\u2013' : `${value.toFixed(0)}% paid`;
+
+interface BenchmarkViewProps {
+    cells: BenchmarkCell[];
+    headers: TableHeaders;
+    sovType: SovType;
+    options: BenchmarkOptions;
+    onOptionsChange: (options: BenchmarkOptions) => void;
+    onDownload: () => void;
 }
 
-const SovTable: React.FC<SovTableProps> = ({ pivotedData, sovType }) => {
-    const { headers, rows } = pivotedData;
+// One period at a time, largest deficits first, so the cells where the focus brand is losing come to the top.
+// Ad and organic gaps side by side show whether it is losing on paid or organic placement.
+const BenchmarkView: React.FC<BenchmarkViewProps> = ({ cells, headers, sovType, options, onOptionsChange, onDownload }) => {
+    const periods = headers.months.map(m => m.name);
+    const [period, setPeriod] = useState<string | null>(null);
+    const [trailingOnly, setTrailingOnly] = useState(false);
+    const activePeriod = period && periods.includes(period) ? period : periods[periods.length - 1];
+    const selectClass = "bg-white border border-gray-300 rounded-md shadow-sm px-2 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+    const labelClass = "flex flex-col gap-1 text-xs font-medium text-gray-500";
 
-    if (rows.length === 0) {
-        return <div className="text-center py-10 bg-white rounded-lg shadow-md">No data available for the selected categories.</div>
-    }
+    const periodCells = useMemo(() => cells.filter(cell => cell.period === activePeriod), [cells, activePeriod]);
+    const rows = useMemo(() => {
+        const getGap = (cell: BenchmarkCell) => cell.gap ? cell.gap[sovType] : Number.MAX_VALUE;
+        return periodCells
+            .filter(cell => !trailingOnly || getGap(cell) < 0)
+            .sort((a, b) => getGap(a) - getGap(b));
+    }, [periodCells, trailingOnly, sovType]);
+    const leadingCount = periodCells.filter(cell => cell.focus.rank === 1).length;
+    const trailingCount = periodCells.filter(cell => cell.gap && cell.gap[sovType] < 0).length;
 
     return (
-        <div className="bg-white rounded-lg shadow-md overflow-hidden">
-            <div className="overflow-auto w-full border-t border-gray-200 max-h-[75vh]">
-                <table className="min-w-full bg-white">
-                    <thead className="bg-gray-50 sticky top-0 z-20">
-                        <tr>
-                            <th scope="col" rowSpan={3} className="sticky left-0 bg-gray-50 z-30 px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider w-32 min-w-[8rem] border-r border-b border-gray-200">Platform</th>
-                            <th scope="col" rowSpan={3} className="sticky left-32 bg-gray-50 z-30 px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider w-40 min-w-[10rem] border-r border-b border-gray-200">City</th>
-                            {headers.months.map((month, monthIndex) => (
-                                <th key={month.name} colSpan={month.slots.reduce((acc, s) => acc + s.brands.length, 0)} className={`px-6 py-3 text-center text-xs font-bold text-gray-600 uppercase tracking-wider border-b ${monthIndex > 0 ? 'border-l-4 border-gray-400' : 'border-l border-gray-200'}`}>
-                                    {month.name}
-                                </th>
-                            ))}
-                        </tr>
-                        <tr>
-                            {headers.months.map((month, monthIndex) => (
-                                month.slots.map((slot, slotIndex) => (
-                                    <th key={`${month.name}-${slot.name}`} colSpan={slot.brands.length} className={`px-6 py-3 text-center text-xs font-semibold text-gray-500 border-b border-t border-gray-200 ${monthIndex > 0 && slotIndex === 0 ? 'border-l-4 border-gray-400' : (slotIndex > 0 ? 'border-l-2 border-gray-400' : 'border-l border-gray-200')}`}>
-                                        {slot.name}
-                                    </th>
-                                ))
-                            ))}
-                        </tr>
-                        <tr>
-                            {headers.months.map((month, monthIndex) => (
-                                month.slots.map((slot, slotIndex) => (
-                                    slot.brands.map((brand, brandIndex) => {
-                                        let borderClass = 'border-l border-gray-200';
-                                        if (monthIndex > 0 && slotIndex === 0 && brandIndex === 0) {
-                                            borderClass = 'border-l-4 border-gray-400';
-                                        } else if (slotIndex > 0 && brandIndex === 0) {
-                                            borderClass = 'border-l-2 border-gray-400';
-                                        }
-                                        return (
-                                            <th key={`${month.name}-${slot.name}-${brand}`} scope="col" className={`px-4 py-3 text-center text-xs font-medium text-gray-500 border-t border-b border-gray-200 w-28 ${borderClass}`}>
-                                                {brand}
-                                            </th>
-                                        );
-                                    })
-                                ))
-                            ))}
-                        </tr>
-                    </thead>
-                    <tbody className="divide-y divide-gray-200">
-                        {rows.map((row, rowIndex) => {
-                            const isInstamart = row.platform.toLowerCase() === 'instamart';
-                            const platformBgClass = isInstamart ? 'bg-sky-50' : 'bg-white';
-                            const platformHoverBgClass = isInstamart ? 'hover:bg-sky-100' : 'hover:bg-gray-50';
+        <div className="bg-white rounded-lg shadow-md">
+            <div className="p-4 border-b flex flex-wrap items-end justify-between gap-4">
+                <div className="flex flex-wrap items-end gap-4">
+                    <label className={labelClass}>
+                        Focus brand
+                        <select value={options.focusBrand} onChange={e => onOptionsChange({ ...options, focusBrand: e.target.value })} className={selectClass}>
+                            {!headers.allBrands.includes(options.focusBrand) && <option value={options.focusBrand}>{options.focusBrand || 'None'}</option>}
+                            {headers.allBrands.map(brand => <option key={brand} value={brand}>{brand}</option>)}
+                        </select>
+                    </label>
+                    <label className={labelClass}>
+                        Compare with
+                        <select value={options.competitorBrand ?? ''} onChange={e => onOptionsChange({ ...options, competitorBrand: e.target.value || null })} className={selectClass}>
+                            <option value="">Leader (or runner-up)</option>
+                            {headers.allBrands.filter(brand => brand !== options.focusBrand).map(brand => <option key={brand} value={brand}>{brand}</option>)}
+                        </select>
+                    </label>
+                    <label className={labelClass}>
+                        Period
+                        <select value={activePeriod ?? ''} onChange={e => setPeriod(e.target.value)} className={selectClass}>
+                            {periods.map(p => <option key={p} value={p}>{p}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 pb-1.5">
+                        <input type="checkbox" checked={trailingOnly} onChange={e => setTrailingOnly(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                        <span>Only where {options.focusBrand || 'the focus brand'} trails</span>
+                    </label>
+                </div>
+                <button onClick={onDownload} disabled={cells.length === 0} className="flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-400 disabled:cursor-not-allowed">
+                    <DownloadIcon /> Download Sheet
+                </button>
+            </div>
+            {periodCells.length === 0 ? (
+                <p className="text-center py-10 text-gray-500">No impressions to benchmark for the selected filters.</p>
+            ) : (
+                <>
+                    <p className="px-4 pt-3 text-sm text-gray-600">
+                        Ranked by {sovType}. In {activePeriod}, {options.focusBrand} leads {leadingCount} of {periodCells.length} cells
+                        and trails {options.competitorBrand ?? 'the leader'} in {trailingCount}.
+                    </p>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2 text-left font-semibold text-gray-600">Platform</th>
+                                    <th className="px-4 py-2 text-left font-semibold text-gray-600">City</th>
+                                    <th className="px-4 py-2 text-left font-semibold text-gray-600">Slot</th>
+                                    <th className="px-4 py-2 text-left font-semibold text-gray-600">Leader</th>
+                                    <th className="px-4 py-2 text-right font-semibold text-gray-600">{options.focusBrand}</th>
+                                    <th className="px-4 py-2 text-left font-semibold text-gray-600">Compared with</th>
+                                    <th className="px-4 py-2 text-right font-semibold text-gray-600">Gap</th>
+                                    <th className="px-4 py-2 text-right font-semibold text-gray-600">Ad gap</th>
+                                    <th className="px-4 py-2 text-right font-semibold text-gray-600">Organic gap</th>
+                                    <th className="px-4 py-2 text-right font-semibold text-gray-600">Ad vs organic mix</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.slice(0, MAX_BENCHMARK_ROWS).map(cell => {
+                                    const leader = cell.brands[0];
+                                    const isAggregate = cell.rowType !== TableRowType.City;
+                                    return (
+                                        <tr key={`${cell.platform}|${cell.city}|${cell.slot}`} className={`border-b ${isAggregate ? 'bg-gray-50 font-semibold' : ''}`}>
+                                            <td className="px-4 py-2 text-gray-700">{cell.platform}</td>
+                                            <td className="px-4 py-2 text-gray-700">{cell.city}</td>
+                                            <td className="px-4 py-2 text-gray-500">{cell.slot}</td>
+                                            <td className="px-4 py-2 text-gray-700">{leader.brand} <span className="text-gray-400">{leader.sov[sovType].toFixed(1)}%</span></td>
+                                            <td className="px-4 py-2 text-right text-gray-700">
+                                                #{cell.focus.rank} <span className="text-gray-400">{cell.focus.sov[sovType].toFixed(1)}%</span>
+                                            </td>
+                                            <td className="px-4 py-2 text-gray-700">
+                                                {cell.comparison ? <>{cell.comparison.brand} <span className="text-gray-400">#{cell.comparison.rank} {cell.comparison.sov[sovType].toFixed(1)}%</span></> : '\u2013'}
+                                            </td>
+                                            {cell.gap ? (
+                                                <>
+                                                    <td className={`px-4 py-2 text-right font-medium ${getGapClass(cell.gap[sovType])}`}>{formatGap(cell.gap[sovType])}</td>
+                                                    <td className={`px-4 py-2 text-right ${getGapClass(cell.gap[SovType.Ad])}`}>{formatGap(cell.gap[SovType.Ad])}</td>
+                                                    <td className={`px-4 py-2 text-right ${getGapClass(cell.gap[SovType.Organic])}`}>{formatGap(cell.gap[SovType.Organic])}</td>
+                                                </>
+                                            ) : (
+                                                <td colSpan={3} className="px-4 py-2 text-right text-gray-400">No competitor impressions</td>
+                                            )}
+                                            <td className="px-4 py-2 text-right text-gray-600">
+                                                {formatPaidShare(cell.focus.paidShare)}
+                                                {cell.comparison && <span className="text-gray-400"> vs {formatPaidShare(cell.comparison.paidShare)}</span>}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    {rows.length > MAX_BENCHMARK_ROWS && (
+                        <p className="p-4 text-xs text-gray-500">
+                            Showing the {MAX_BENCHMARK_ROWS} largest gaps of {rows.length.toLocaleString()}. Download the sheet for every cell and period.
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
 
-                            return (
-                                <tr key={`${row.platform}-${row.city}`} className={`${platformBgClass} ${platformHoverBgClass} ${row.isFirstInPlatform && rowIndex > 0 ? 'border-t-4 border-t-gray-400' : ''}`}>
-                                    <td className={`sticky left-0 z-10 px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 w-32 min-w-[8rem] border-r border-gray-200 ${platformBgClass} ${platformHoverBgClass}`}>{row.platform}</td>
-                                    <td className={`sticky left-32 z-10 px-6 py-4 whitespace-nowrap text-sm text-gray-500 w-40 min-w-[10rem] border-r border-gray-200 ${platformBgClass} ${platformHoverBgClass}`}>{row.city}</td>
-                                    {headers.months.map((month, monthIndex) => (
-                                        month.slots.map((slot, slotIndex) => (
-                                            slot.brands.map((brand, brandIndex) => {
-                                                let borderClass = 'border-l border-gray-200';
-                                                if (monthIndex > 0 && slotIndex === 0 && brandIndex === 0) {
-                                                    borderClass = 'border-l-4 border-gray-400';
-                                                } else if (slotIndex > 0 && brandIndex === 0) {
-                                                    borderClass = 'border-l-2 border-gray-400';
-                                                }
-                                                const sovData = row.data[month.name]?.[slot.name]?.[brand];
-                                                
-                                                if (sovData === undefined) {
-                                                    return <td key={`${month.name}-${slot.name}-${brand}`} className={`px-4 py-3 text-center text-sm text-gray-500 ${borderClass}`}>-</td>;
-                                                }
-                                                
-                                                const value = sovData[sovType];
-                                                
-                                                return (
-                                                    <td key={`${month.name}-${slot.name}-${brand}`} className={`px-4 py-3 text-center text-sm text-gray-700 ${borderClass}`}>
-                                                        {value.toFixed(2)}%
-                                                    </td>
-                                                );
-                                            })
-                                        ))
-                                    ))}
+const KeywordDrillDown: React.FC<{ breakdown: KeywordBreakdown; onClose: () => void }> = ({ breakdown, onClose }) => {
+    const panelRef = useRef<HTMLDivElement>(null);
+    useOnClickOutside(panelRef, onClose);
+    useOnEscape(onClose);
+    const { cell, sovType, cellSov, keywords } = breakdown;
+    const maxContribution = Math.max(0, ...keywords.map(k => k.contribution));
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-30 flex justify-end z-50">
+            <div ref={panelRef} className="bg-white shadow-xl w-full max-w-2xl h-full flex flex-col">
+                <div className="p-4 border-b flex justify-between items-start gap-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-800">{cell.brand} &middot; {sovType} {cellSov.toFixed(2)}%</h2>
+                        <p className="text-sm text-gray-500">{cell.platform} / {cell.city} &middot; {cell.month} &middot; {cell.slot}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-2xl leading-none" aria-label="Close">&times;</button>
+                </div>
+                <div className="overflow-y-auto flex-1">
+                    {keywords.length === 0 ? (
+                        <p className="p-6 text-sm text-gray-500">No impressions for this cell.</p>
+                    ) : (
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-gray-50 text-xs text-gray-500 sticky top-0">
+                                <tr>
+                                    <th className="px-4 py-2 text-left font-medium">Keyword</th>
+                                    <th className="px-4 py-2 text-right font-medium">{cell.brand} Impr.</th>
+                                    <th className="px-4 py-2 text-right font-medium">All Impr.</th>
+                                    <th className="px-4 py-2 text-right font-medium">SOV</th>
+                                    <th className="px-4 py-2 text-left font-medium w-40">Contribution</th>
                                 </tr>
-                            )
-                        })}
-                    </tbody>
-                </table>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {keywords.map(k => (
+                                    <tr key={k.keyword}>
+                                        <td className="px-4 py-2">
+                                            <span className="font-mono text-gray-800">{k.keyword}</span>
+                                            <span className="block text-xs text-gray-400">{k.category}</span>
+                                        </td>
+                                        <td className="px-4 py-2 text-right text-gray-700">{k.brandImpressions.toLocaleString()}</td>
+                                        <td className="px-4 py-2 text-right text-gray-500">{k.totalImpressions.toLocaleString()}</td>
+                                        <td className="px-4 py-2 text-right text-gray-700">{k.sov.toFixed(2)}%</td>
+                                        <td className="px-4 py-2">
+                                            <div className="flex items-center gap-2">
+                                                <div className="flex-1 h-2 bg-gray-100 rounded">
+                                                    <div className="h-2 bg-indigo-500 rounded" style={{ width: `${maxContribution > 0 ? (k.contribution / maxContribution) * 100 : 0}%` }} />
+                                                </div>
+                                                <span className="w-16 text-right text-gray-700">{k.contribution.toFixed(2)} pp</span>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+                <p className="p-4 border-t bg-gray-50 text-xs text-gray-500">
+                    Contribution is the keyword's {cell.brand} impressions as a share of all impressions in the cell, so the column adds up to the cell's SOV.
+                </p>
             </div>
         </div>
     );
 };
 
+const EMPTY_PIVOT_RESULT: PivotResult = {
+    pivotedData: { headers: { months: [], allBrands: [] }, rows: [] },
+    chartData: null,
+    cellImpressions: null,
+    categories: [],
+    filterOptions: { categories: [], platforms: [], cities: [], months: [], slots: [], brands: [] },
+    knownBrands: [],
+};
+
+const EMPTY_DATA_SUMMARY: DataSummary = {
+    slotNames: [],
+    hasCrawlDates: false,
+    undatedRows: 0,
+    monthToDateCutoff: null,
+    hasKeywords: false,
+    dataQuality: { totalRows: 0, invalidRows: 0, issues: [] },
+};
+
+const describeProgress = ({ stage, rows, fraction }: ProcessingProgress): string => {
+    if (stage === ProcessingStage.Downloading) return 'Downloading data...';
+    const percent = fraction !== null ? ` (${Math.round(fraction * 100)}%)` : '';
+    return `${stage} ${rows.toLocaleString()} rows${percent}...`;
+};
+
+// Sits over the current table or charts while a re-pivot runs, so the page stays usable and nothing jumps.
+const UpdatingOverlay: React.FC = () => (
+    <div className="absolute inset-0 z-30 flex justify-center items-start pt-16 bg-white bg-opacity-60 rounded-lg">
+        <div className="flex items-center px-4 py-2 bg-white rounded-full shadow-md">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-500"></div>
+            <p className="ml-3 text-sm text-gray-600">Updating report...</p>
+        </div>
+    </div>
+);
+
+interface DashboardProps {
+  session: AuthSession;
+  tenant: TenantConfig;
+  onLogout: () => void;
+}
 
-const Dashboard: React.FC = () => {
+const Dashboard: React.FC<DashboardProps> = ({ session, tenant, onLogout }) => {
     const [loading, setLoading] = useState(true);
+    const [loadProgress, setLoadProgress] = useState<ProcessingProgress | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [pivotedData, setPivotedData] = useState<PivotedData>({ headers: { months: [], allBrands:[] }, rows: [] });
     const [rawData, setRawData] = useState<RawDataRow[]>([]);
-    const [allCategories, setAllCategories] = useState<string[]>([]);
-    const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-    const [sovType, setSovType] = useState<SovType>(SovType.Overall);
+    const [dataSummary, setDataSummary] = useState<DataSummary>(EMPTY_DATA_SUMMARY);
+    const [pivotResult, setPivotResult] = useState<PivotResult>(EMPTY_PIVOT_RESULT);
+    const [isPivoting, setIsPivoting] = useState(false);
+    const [pivotError, setPivotError] = useState<string | null>(null);
+    const [fetchedAt, setFetchedAt] = useState<Date | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [brandConfig, setBrandConfig] = useState<BrandConfig>(() => loadBrandConfig(tenant.id, tenant.brandConfig));
+    const [taxonomy, setTaxonomy] = useState<CategoryTaxonomy>(() => loadTaxonomy(tenant.id, tenant.taxonomy));
+    const [slotConfig, setSlotConfig] = useState<SlotConfig>(() => loadSlotConfig(tenant.id, tenant.slotConfig));
+    const defaultFocusBrand = tenant.focusBrand || brandConfig.visibleBrands[0] || '';
+    // Everything that makes up a shareable report starts from the query string, so links reopen the same view.
+    const [initialViewState] = useState<DashboardViewState>(() =>
+        decodeViewState(window.location.search, getDefaultViewState(defaultFocusBrand)));
+    const [filters, setFilters] = useState<DashboardFilters>(initialViewState.filters);
+    const [sovType, setSovType] = useState<SovType>(initialViewState.sovType);
+    const [displayMode, setDisplayMode] = useState<DisplayMode>(initialViewState.displayMode);
+    const [deltaOptions, setDeltaOptions] = useState<DeltaOptions>(initialViewState.deltaOptions);
+    const [aggregateOptions, setAggregateOptions] = useState<AggregateOptions>(initialViewState.aggregateOptions);
+    const [timeOptions, setTimeOptions] = useState<TimeOptions>(initialViewState.timeOptions);
+    const [benchmarkOptions, setBenchmarkOptions] = useState<BenchmarkOptions>(initialViewState.benchmarkOptions);
+    const [view, setView] = useState<DashboardView>(initialViewState.view);
+    const [sortOptions, setSortOptions] = useState<RowSortOptions>(initialViewState.sortOptions);
+    const [chartRow, setChartRow] = useState<ChartRowSelection | null>(null);
+    const [drillDownCell, setDrillDownCell] = useState<SovCell | null>(null);
+    const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadAlertRules(tenant.id));
+    const [displayOptions, setDisplayOptions] = useState<DisplayOptions>(() => loadDisplayOptions(tenant.id));
+    const [highlightedCell, setHighlightedCell] = useState<CellHighlight | null>(null);
     const [isInfoModalOpen, setIsInfoModalOpen] = useState(false);
+    const [isBrandSettingsOpen, setIsBrandSettingsOpen] = useState(false);
+    const [isSlotSettingsOpen, setIsSlotSettingsOpen] = useState(false);
+    const [isAlertRulesOpen, setIsAlertRulesOpen] = useState(false);
+    const [isDisplaySettingsOpen, setIsDisplaySettingsOpen] = useState(false);
+    const [isDataExportOpen, setIsDataExportOpen] = useState(false);
+    const [isLinkCopied, setIsLinkCopied] = useState(false);
+    const [dataSource, setDataSource] = useState<DataSource>(tenant.dataSource);
+    const [refreshRequest, setRefreshRequest] = useState(0);
     const isInitialLoad = useRef(true);
+    // Rows whose categories should all be selected once the worker reports them.
+    const rowsAwaitingCategories = useRef<RawDataRow[] | null>(null);
+    const lastRefreshRequest = useRef(0);
+
+    const handleDataSourceChange = (source: DataSource) => {
+        // A new source brings its own categories, so start over as if this were the first load.
+        isInitialLoad.current = true;
+        setFilters(EMPTY_FILTERS);
+        setDataSource(source);
+    };
 
+    // Only (re)load when the source changes or a refresh is requested; category changes re-pivot the cached rows below.
     useEffect(() => {
+        const forceRefresh = refreshRequest !== lastRefreshRequest.current;
+        lastRefreshRequest.current = refreshRequest;
+        // Aborting stops the download and parse in the worker when the source changes again mid-load.
+        const controller = new AbortController();
         setLoading(true);
-        fetchDataAndProcess(selectedCategories)
+        setLoadProgress(null);
+        fetchRawData(dataSource, forceRefresh, setLoadProgress, controller.signal)
             .then(data => {
-                setPivotedData({ headers: data.headers, rows: data.rows });
+                if (controller.signal.aborted) return;
                 setRawData(data.rawData);
+                setDataSummary(data.summary);
+                setFetchedAt(data.fetchedAt);
                 setError(null);
-                if (isInitialLoad.current && data.allCategories.length > 0) {
-                    setAllCategories(data.allCategories);
-                    setSelectedCategories(data.allCategories);
+                if (isInitialLoad.current) {
+                    rowsAwaitingCategories.current = data.rawData;
                     isInitialLoad.current = false;
                 }
             })
             .catch(err => {
+                if (controller.signal.aborted) return;
                 console.error(err);
                 setError('Failed to load and process data. Please check the data source and your network connection.');
             })
             .finally(() => {
-                setLoading(false);
+                if (!controller.signal.aborted) setLoading(false);
+            });
+        return () => controller.abort();
+    }, [dataSource, refreshRequest]);
+
+    const includeChartData = view === DashboardView.Charts;
+    const includeCellImpressions = view === DashboardView.Benchmark;
+
+    // Pivoting runs in a worker. A newer request cancels the one in flight, and the previous table stays on screen meanwhile.
+    useEffect(() => {
+        if (rawData.length === 0) {
+            setPivotResult(EMPTY_PIVOT_RESULT);
+            setIsPivoting(false);
+            return;
+        }
+        const controller = new AbortController();
+        setIsPivoting(true);
+        pivotInWorker(rawData, { filters, brandConfig, taxonomy, slotConfig, aggregateOptions, timeOptions, includeChartData, includeCellImpressions }, undefined, controller.signal)
+            .then(result => {
+                if (controller.signal.aborted) return;
+                setPivotResult(result);
+                setPivotError(null);
+                const { categories } = result;
+                if (rowsAwaitingCategories.current === rawData && categories.length > 0) {
+                    // Keep categories that came from a shared link, as long as this data still has them.
+                    setFilters(f => {
+                        const linkedCategories = f.categories.filter(c => categories.includes(c));
+                        return { ...f, categories: linkedCategories.length > 0 ? linkedCategories : categories };
+                    });
+                    rowsAwaitingCategories.current = null;
+                }
+            })
+            .catch(err => {
+                if (controller.signal.aborted) return;
+                console.error('Failed to pivot the data:', err);
+                setPivotError('Failed to process the data with these settings. Please try again.');
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setIsPivoting(false);
             });
-    }, [selectedCategories]);
-    
-    if (error) return <div className="text-center text-red-500 p-8">{error}</div>;
+        return () => controller.abort();
+    }, [rawData, filters, brandConfig, taxonomy, slotConfig, aggregateOptions, timeOptions, includeChartData, includeCellImpressions]);
+
+    const { categories: allCategories, filterOptions, knownBrands } = pivotResult;
+    const { slotNames, monthToDateCutoff, dataQuality, undatedRows, hasCrawlDates: canUseCrawlDates, hasKeywords: canDrillDown } = dataSummary;
+    const pivotedData = useMemo(() => sortPivotedRows(pivotResult.pivotedData, sortOptions), [pivotResult, sortOptions]);
+    const activeDeltaOptions = displayMode === DisplayMode.Delta ? deltaOptions : null;
+
+    const handleDownloadReport = () => {
+        setIsExporting(true);
+        setExportError(null);
+        downloadExcelReport(pivotedData, rawData, {
+            clientName: tenant.clientName,
+            dataSourceLabel: `${dataSource.kind}: ${describeDataSource(dataSource, tenant.dataSource)}`,
+            fetchedAt,
+            filters,
+            categories: filters.categories.length > 0 ? filters.categories : allCategories,
+            timeOptions,
+            focusSovType: sovType,
+            platformColors: displayOptions.platformColors,
+            decimals: displayOptions.decimals,
+        }, tenant.exportNames.report, activeDeltaOptions ?? undefined)
+            .catch(err => {
+                console.error('Failed to build the Excel report:', err);
+                setExportError('Could not build the Excel report. Please try again.');
+            })
+            .finally(() => setIsExporting(false));
+    };
+
+    const getDataExportRows = useCallback(
+        (scope: ExportScope, shape: ExportShape) =>
+            getExportRows(rawData, filters, brandConfig, taxonomy, slotConfig, aggregateOptions, timeOptions, scope, shape),
+        [rawData, filters, brandConfig, taxonomy, slotConfig, aggregateOptions, timeOptions]
+    );
+
+    const handleGenerateReport = (format: ReportFormat) => {
+        const context = { clientName: tenant.clientName, primaryColor: tenant.branding.primaryColor, sovType, taxonomy, fetchedAt, platformColors: displayOptions.platformColors, decimals: displayOptions.decimals };
+        const baseName = tenant.exportNames.report.replace(/\.xlsx$/i, '');
+        // The report's trends chart the weighted platform totals, which the charts view has already pivoted.
+        const trendData = chartData
+            ? Promise.resolve(chartData)
+            : pivotReportInWorker(rawData, { filters, brandConfig, taxonomy, slotConfig, aggregateOptions, timeOptions, includeChartData: true, includeCellImpressions: false })
+                .then(result => {
+                    if (!result.chartData) throw new Error('The data worker returned no chart data.');
+                    return sortPivotedRows(result.chartData, sortOptions);
+                });
+        const generate = trendData.then(data => format === ReportFormat.Pdf
+            ? downloadPdfReport(pivotedData, data, context, `${baseName}.pdf`)
+            : downloadPptxReport(pivotedData, data, context, `${baseName}.pptx`));
+        setIsExporting(true);
+        setExportError(null);
+        generate
+            .catch(err => {
+                console.error(`Failed to generate the ${format} report:`, err);
+                setExportError(`Could not generate the ${format} report. Please try again.`);
+            })
+            .finally(() => setIsExporting(false));
+    };
+
+    // Charts need the weighted platform and all-India figures regardless of which totals the table shows.
+    const chartData = useMemo<PivotedData | null>(
+        () => includeChartData && pivotResult.chartData ? sortPivotedRows(pivotResult.chartData, sortOptions) : null,
+        [includeChartData, pivotResult, sortOptions]
+    );
+    const benchmarkCells = useMemo<BenchmarkCell[]>(
+        () => pivotResult.cellImpressions ? getBenchmarkCells(pivotedData, pivotResult.cellImpressions, benchmarkOptions, sovType) : [],
+        [pivotResult, pivotedData, benchmarkOptions, sovType]
+    );
+
+    // The client's own brand, or the first reported brand when the workspace doesn't name one.
+    const focusBrand = tenant.focusBrand || pivotedData.headers.allBrands[0] || '';
+    const alertHits = useMemo(
+        () => evaluateAlerts(pivotedData, alertRules, focusBrand),
+        [pivotedData, alertRules, focusBrand]
+    );
+
+    const handleAlertSelect = (hit: AlertHit) => {
+        setView(DashboardView.Table);
+        setHighlightedCell({ platform: hit.platform, city: hit.city, month: hit.period, slot: hit.slot, brand: hit.brand });
+    };
+
+    const updateDisplayOptions = (options: DisplayOptions) => {
+        saveDisplayOptions(tenant.id, options);
+        setDisplayOptions(options);
+    };
+
+    const handleDisplayOptionsSave = (options: DisplayOptions) => {
+        updateDisplayOptions(options);
+        setIsDisplaySettingsOpen(false);
+    };
+
+    const handleAlertRulesSave = (rules: AlertRule[]) => {
+        saveAlertRules(tenant.id, rules);
+        setAlertRules(rules);
+        setIsAlertRulesOpen(false);
+    };
+
+    const handleDownloadBenchmark = () => {
+        const baseName = tenant.exportNames.report.replace(/\.xlsx$/i, '');
+        downloadRows(getBenchmarkExportRows(benchmarkCells, sovType), ExportFormat.Xlsx, `${baseName}_Benchmark`, 'Benchmark');
+    };
+
+    const keywordBreakdown = useMemo(
+        () => drillDownCell && getKeywordBreakdown(rawData, filters, brandConfig, taxonomy, slotConfig, timeOptions, drillDownCell, sovType),
+        [drillDownCell, rawData, filters, brandConfig, taxonomy, slotConfig, timeOptions, sovType]
+    );
+
+    const defaultViewState = useMemo(() => getDefaultViewState(defaultFocusBrand), [defaultFocusBrand]);
+    const viewQuery = useMemo(() => encodeViewState(
+        { filters, sovType, sortOptions, view, displayMode, deltaOptions, aggregateOptions, timeOptions, benchmarkOptions },
+        defaultViewState,
+        allCategories
+    ), [filters, sovType, sortOptions, view, displayMode, deltaOptions, aggregateOptions, timeOptions, benchmarkOptions, defaultViewState, allCategories]);
+
+    useEffect(() => {
+        document.title = `${tenant.clientName} SOV Dashboard`;
+    }, [tenant.clientName]);
+
+    useEffect(() => {
+        const { pathname, hash } = window.location;
+        window.history.replaceState(null, '', `${pathname}${viewQuery ? `?${viewQuery}` : ''}${hash}`);
+    }, [viewQuery]);
+
+    const applyViewQuery = (query: string) => {
+        const state = decodeViewState(query, defaultViewState);
+        const categories = state.filters.categories.filter(c => allCategories.includes(c));
+        setFilters({ ...state.filters, categories: categories.length > 0 ? categories : allCategories });
+        setSovType(state.sovType);
+        setSortOptions(state.sortOptions);
+        setView(state.view);
+        setDisplayMode(state.displayMode);
+        setDeltaOptions(state.deltaOptions);
+        setAggregateOptions(state.aggregateOptions);
+        setTimeOptions(state.timeOptions);
+        setBenchmarkOptions(state.benchmarkOptions);
+    };
+
+    const handleCopyLink = () => {
+        navigator.clipboard.writeText(window.location.href)
+            .then(() => {
+                setIsLinkCopied(true);
+                setTimeout(() => setIsLinkCopied(false), 2000);
+            })
+            .catch(err => console.error('Could not copy link:', err));
+    };
+
+    // Period labels differ per grain, so ranges and base periods picked under the old grain no longer apply.
+    const handleGrainChange = (grain: TimeGrain) => {
+        setTimeOptions(o => ({ ...o, grain }));
+        setFilters(f => ({ ...f, monthRange: null }));
+        setDeltaOptions(o => ({ ...o, baseMonth: null }));
+        setSortOptions(o => ({ ...o, monthRange: null }));
+    };
+
+    const handleFilterMonthChange = (field: keyof MonthRange, value: string) => {
+        if (!value) {
+            setFilters(f => ({ ...f, monthRange: null }));
+            return;
+        }
+        setFilters(f => {
+            const edge = field === 'from' ? filterOptions.months[filterOptions.months.length - 1] : filterOptions.months[0];
+            const current = f.monthRange ?? { from: edge ?? value, to: edge ?? value };
+            return { ...f, monthRange: { ...current, [field]: value } };
+        });
+    };
+
+    const handleRowClick = (row: TableRow) => {
+        setChartRow({ platform: row.platform, city: row.city });
+        setView(DashboardView.Charts);
+    };
+
+    const handleBrandConfigSave = (config: BrandConfig) => {
+        saveBrandConfig(tenant.id, config);
+        setBrandConfig(config);
+        setIsBrandSettingsOpen(false);
+    };
+
+    // The slot filter holds column labels, which a relabelled or excluded slot would no longer match.
+    const handleSlotConfigSave = (config: SlotConfig) => {
+        saveSlotConfig(tenant.id, config);
+        setSlotConfig(config);
+        setFilters(f => ({ ...f, slots: [] }));
+        setIsSlotSettingsOpen(false);
+    };
+
+    // Renamed or new categories would otherwise sit outside the current category selection.
+    const handleTaxonomySave = (updated: CategoryTaxonomy) => {
+        saveTaxonomy(tenant.id, updated);
+        setTaxonomy(updated);
+        rowsAwaitingCategories.current = rawData;
+        setFilters(f => ({ ...f, categories: [] }));
+        setIsInfoModalOpen(false);
+    };
 
     return (
         <div className="p-4 sm:p-6 lg:p-8 bg-slate-100 min-h-screen">
-            <header className="mb-6">
-                <h1 className="text-4xl font-bold text-gray-800">Grupo Bimbo SOV Dashboard</h1>
+            <header className="mb-6 flex flex-wrap justify-between items-center gap-4">
+                <h1 className="text-4xl font-bold" style={{ color: tenant.branding.primaryColor }}>{tenant.clientName} SOV Dashboard</h1>
+                <div className="flex items-center gap-3">
+                    <span className="text-sm text-gray-600">Signed in as <span className="font-medium text-gray-800">{session.account.displayName}</span></span>
+                    <button onClick={onLogout} className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                        Log out
+                    </button>
+                </div>
             </header>
 
             <main className="space-y-6">
@@ -362,6 +2233,12 @@ const Dashboard: React.FC = () => {
                     <div className="flex flex-wrap justify-between items-start gap-6">
                        <div>
                             <h2 className="text-xl font-semibold text-gray-700">SOV Report</h2>
+                            {fetchedAt && (
+                                <p className="text-xs text-gray-500 mt-1">Data loaded {fetchedAt.toLocaleString()}</p>
+                            )}
+                            {exportError && (
+                                <p className="text-xs text-red-600 mt-1">{exportError}</p>
+                            )}
                             <div className="flex items-center space-x-1 p-1 bg-gray-100 rounded-full mt-4">
                                 {Object.values(SovType).map(type => (
                                     <button
@@ -373,15 +2250,86 @@ const Dashboard: React.FC = () => {
                                     </button>
                                 ))}
                             </div>
+                            <div className="flex flex-wrap items-center gap-3 mt-3">
+                                <div className="flex items-center space-x-1 p-1 bg-gray-100 rounded-full">
+                                    {Object.values(DisplayMode).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => setDisplayMode(mode)}
+                                            className={`px-4 py-1.5 text-sm font-semibold rounded-full transition-colors ${displayMode === mode ? 'bg-white text-gray-800 shadow-sm' : 'bg-transparent text-gray-500 hover:bg-gray-200'}`}
+                                        >
+                                            {mode}
+                                        </button>
+                                    ))}
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-gray-600">
+                                    Heatmap
+                                    <select
+                                        value={displayOptions.heatmap}
+                                        onChange={e => updateDisplayOptions({ ...displayOptions, heatmap: e.target.value as HeatmapScope })}
+                                        className="bg-white border border-gray-300 rounded-md shadow-sm px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                                    >
+                                        {Object.values(HeatmapScope).map(scope => <option key={scope} value={scope}>{scope}</option>)}
+                                    </select>
+                                </label>
+                                {displayMode === DisplayMode.Delta && (
+                                    <>
+                                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                                            vs
+                                            <select
+                                                value={deltaOptions.baseMonth ?? ''}
+                                                onChange={e => setDeltaOptions(o => ({ ...o, baseMonth: e.target.value || null }))}
+                                                className="bg-white border border-gray-300 rounded-md shadow-sm px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                                            >
+                                                <option value="">Previous period</option>
+                                                {pivotedData.headers.months.map(m => <option key={m.name} value={m.name}>{m.name}</option>)}
+                                            </select>
+                                        </label>
+                                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                                            Highlight moves &ge;
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                step={0.5}
+                                                value={deltaOptions.significanceThreshold}
+                                                onChange={e => setDeltaOptions(o => ({ ...o, significanceThreshold: Math.max(0, Number(e.target.value) || 0) }))}
+                                                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                                            />
+                                            pp
+                                        </label>
+                                    </>
+                                )}
+                            </div>
                        </div>
                        <div className="flex items-center space-x-2">
-                            <button onClick={() => downloadExcel(pivotedData, sovType)} className="flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-green-300 disabled:cursor-not-allowed" disabled={loading || pivotedData.rows.length === 0}>
-                                <ExcelIcon /> Download Report
+                            <button onClick={handleCopyLink} className="flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                                <LinkIcon className="h-5 w-5 mr-2" /> {isLinkCopied ? 'Copied!' : 'Copy Link'}
+                            </button>
+                            <SavedViewsMenu tenantId={tenant.id} currentQuery={viewQuery} onApply={applyViewQuery} />
+                            <button onClick={() => setIsBrandSettingsOpen(true)} className="flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                                <SettingsIcon className="h-5 w-5 mr-2" /> Brand Settings
+                            </button>
+                            <button onClick={() => setIsSlotSettingsOpen(true)} className="flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                                <SettingsIcon className="h-5 w-5 mr-2" /> Slot Settings
                             </button>
-                            <button onClick={() => downloadCsv(rawData)} className="flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-100 disabled:cursor-not-allowed" disabled={loading || rawData.length === 0}>
-                                <DownloadIcon /> Download Raw Data
+                            <button onClick={() => setIsDisplaySettingsOpen(true)} className="flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                                <SettingsIcon className="h-5 w-5 mr-2" /> Display Settings
+                            </button>
+                            <button onClick={() => setRefreshRequest(r => r + 1)} className="flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-100 disabled:cursor-not-allowed" disabled={loading}>
+                                <RefreshIcon className={`h-5 w-5 mr-2 ${loading ? 'animate-spin' : ''}`} /> {loading ? 'Refreshing...' : 'Refresh Data'}
+                            </button>
+                            <button onClick={handleDownloadReport} className="flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-green-300 disabled:cursor-not-allowed" disabled={loading || isExporting || pivotedData.rows.length === 0}>
+                                <ExcelIcon /> {isExporting ? 'Preparing...' : 'Download Report'}
+                            </button>
+                            <ClientReportMenu disabled={loading || pivotedData.rows.length === 0} isGenerating={isExporting} onGenerate={handleGenerateReport} />
+                            <button onClick={() => setIsDataExportOpen(true)} className="flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-100 disabled:cursor-not-allowed" disabled={loading || rawData.length === 0}>
+                                <DownloadIcon /> Export Data
                             </button>
                         </div>
+                    </div>
+                    <div className="mt-6 border-t pt-6">
+                        <h3 className="text-md font-semibold text-gray-700 mb-2">Data Source</h3>
+                        <DataSourcePicker dataSource={dataSource} workspaceSource={tenant.dataSource} onChange={handleDataSourceChange} />
                     </div>
                      <div className="mt-6 border-t pt-6">
                         <div className="flex items-center gap-2 mb-2">
@@ -392,49 +2340,218 @@ const Dashboard: React.FC = () => {
                         </div>
                         <div className="max-w-md">
                             <MultiSelectDropdown 
-                               allCategories={allCategories}
-                               selectedCategories={selectedCategories}
-                               setSelectedCategories={setSelectedCategories}
+                               options={allCategories}
+                               selected={filters.categories}
+                               onChange={categories => setFilters(f => ({ ...f, categories }))}
+                               placeholder="Select Category..."
                             />
                         </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 mt-4">
+                            {([
+                                ['platforms', 'Platform', 'All platforms', filterOptions.platforms],
+                                ['cities', 'City', 'All cities', filterOptions.cities],
+                                ['slots', 'Slot', 'All slots', filterOptions.slots],
+                                ['brands', 'Brand', 'All visible brands', filterOptions.brands],
+                            ] as [keyof Omit<DashboardFilters, 'categories' | 'monthRange'>, string, string, string[]][]).map(([key, label, placeholder, options]) => (
+                                <div key={key}>
+                                    <h4 className="text-xs font-medium text-gray-500 mb-1">{label}</h4>
+                                    <MultiSelectDropdown
+                                        options={options}
+                                        selected={filters[key]}
+                                        onChange={values => setFilters(f => ({ ...f, [key]: values }))}
+                                        placeholder={placeholder}
+                                    />
+                                </div>
+                            ))}
+                            <div>
+                                <h4 className="text-xs font-medium text-gray-500 mb-1">{timeOptions.grain}s</h4>
+                                <div className="flex items-center gap-2">
+                                    <select value={filters.monthRange?.from ?? ''} onChange={e => handleFilterMonthChange('from', e.target.value)} className="flex-1 min-w-0 bg-white border border-gray-300 rounded-md shadow-sm px-2 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500">
+                                        <option value="">All</option>
+                                        {filterOptions.months.map(m => <option key={m} value={m}>{m}</option>)}
+                                    </select>
+                                    <span className="text-gray-400">&ndash;</span>
+                                    <select value={filters.monthRange?.to ?? ''} onChange={e => handleFilterMonthChange('to', e.target.value)} className="flex-1 min-w-0 bg-white border border-gray-300 rounded-md shadow-sm px-2 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500">
+                                        <option value="">All</option>
+                                        {filterOptions.months.map(m => <option key={m} value={m}>{m}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                        </div>
+                        <ActiveFilterChips filters={filters} allCategories={allCategories} onChange={setFilters} />
+                    </div>
+                    <div className="mt-6 border-t pt-6">
+                        <h3 className="text-md font-semibold text-gray-700 mb-2">Time Periods</h3>
+                        <div className="flex flex-wrap items-center gap-6">
+                            <div className="inline-flex items-center space-x-1 p-1 bg-gray-100 rounded-full">
+                                {Object.values(TimeGrain).map(grain => (
+                                    <button
+                                        key={grain}
+                                        onClick={() => handleGrainChange(grain)}
+                                        disabled={needsCrawlDate(grain) && !canUseCrawlDates}
+                                        title={needsCrawlDate(grain) && !canUseCrawlDates ? 'Needs a CRAWL_DATE column in the data' : undefined}
+                                        className={`px-4 py-1.5 text-sm font-semibold rounded-full transition-colors disabled:text-gray-300 disabled:cursor-not-allowed ${timeOptions.grain === grain ? 'bg-white text-gray-800 shadow-sm' : 'bg-transparent text-gray-500 hover:bg-gray-200'}`}
+                                    >
+                                        {grain}
+                                    </button>
+                                ))}
+                            </div>
+                            <label className={`flex items-center space-x-2 text-sm ${canUseCrawlDates ? 'text-gray-700 cursor-pointer' : 'text-gray-400 cursor-not-allowed'}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={timeOptions.monthToDate}
+                                    disabled={!canUseCrawlDates}
+                                    onChange={e => setTimeOptions(o => ({ ...o, monthToDate: e.target.checked }))}
+                                    className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                />
+                                <span>Month to date{monthToDateCutoff !== null && ` (days 1\u2013${monthToDateCutoff} of each month)`}</span>
+                            </label>
+                        </div>
+                    </div>
+                    <div className="mt-6 border-t pt-6">
+                        <h3 className="text-md font-semibold text-gray-700 mb-2">Totals</h3>
+                        <div className="flex flex-wrap gap-6">
+                            {([
+                                ['showGrandTotal', 'All-India total'],
+                                ['showPlatformTotals', 'Platform totals'],
+                                ['showAllSlots', 'All slots column'],
+                            ] as [keyof AggregateOptions, string][]).map(([option, label]) => (
+                                <label key={option} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={aggregateOptions[option]}
+                                        onChange={e => setAggregateOptions(o => ({ ...o, [option]: e.target.checked }))}
+                                        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    <span>{label}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="mt-6 border-t pt-6">
+                        <h3 className="text-md font-semibold text-gray-700 mb-2">Row Order</h3>
+                        <RowSortControls headers={pivotedData.headers} sortOptions={sortOptions} onChange={setSortOptions} />
                     </div>
                 </div>
-                {loading && isInitialLoad.current ? (
+                {error || pivotError ? (
+                    <div className="text-center text-red-500 p-8 bg-white rounded-lg shadow-md">{error ?? pivotError}</div>
+                ) : (loading && rawData.length === 0) || (isPivoting && pivotResult === EMPTY_PIVOT_RESULT) ? (
                     <div className="flex justify-center items-center py-20 bg-white rounded-lg shadow-md">
                         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
-                        <p className="ml-4 text-gray-600">Loading Report...</p>
+                        <p className="ml-4 text-gray-600">{loading && loadProgress ? describeProgress(loadProgress) : 'Loading Report...'}</p>
                     </div>
                 ) : (
-                    <SovTable pivotedData={pivotedData} sovType={sovType} />
+                    <>
+                        {rawData.length > 0 && <DataQualityPanel report={dataQuality} excludedUndatedRows={timeOptions.monthToDate || needsCrawlDate(timeOptions.grain) ? undatedRows : 0} />}
+                        {pivotedData.rows.length > 0 && (
+                            <AlertsPanel hits={alertHits} rules={alertRules} headers={pivotedData.headers} onSelect={handleAlertSelect} onEditRules={() => setIsAlertRulesOpen(true)} />
+                        )}
+                        <div className="flex items-center space-x-1 p-1 bg-white rounded-full shadow-sm w-fit">
+                            {Object.values(DashboardView).map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setView(option)}
+                                    className={`px-5 py-1.5 text-sm font-semibold rounded-full transition-colors ${view === option ? 'text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+                                    style={view === option ? { backgroundColor: tenant.branding.primaryColor } : undefined}
+                                >
+                                    {option}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="relative">
+                            {view === DashboardView.Charts && chartData ? (
+                                <ChartsView pivotedData={chartData} sovType={sovType} selectedRow={chartRow} onSelectRow={setChartRow} />
+                            ) : view === DashboardView.Benchmark ? (
+                                <BenchmarkView
+                                    cells={benchmarkCells}
+                                    headers={pivotedData.headers}
+                                    sovType={sovType}
+                                    options={benchmarkOptions}
+                                    onOptionsChange={setBenchmarkOptions}
+                                    onDownload={handleDownloadBenchmark}
+                                />
+                            ) : (
+                                <SovTable pivotedData={pivotedData} sovType={sovType} sortOptions={sortOptions} onSortChange={setSortOptions} deltaOptions={activeDeltaOptions} onRowClick={handleRowClick} onCellClick={canDrillDown ? setDrillDownCell : undefined} highlightedCell={highlightedCell} displayOptions={displayOptions} focusBrand={focusBrand} />
+                            )}
+                            {isPivoting && <UpdatingOverlay />}
+                        </div>
+                    </>
                 )}
             </main>
 
-            {isInfoModalOpen && <CategoryInfoModal onClose={() => setIsInfoModalOpen(false)} />}
+            {keywordBreakdown && <KeywordDrillDown breakdown={keywordBreakdown} onClose={() => setDrillDownCell(null)} />}
+            {isInfoModalOpen && (
+                <CategoryTaxonomyModal
+                    taxonomy={taxonomy}
+                    workspaceTaxonomy={tenant.taxonomy}
+                    onSave={handleTaxonomySave}
+                    onClose={() => setIsInfoModalOpen(false)}
+                />
+            )}
+            {isBrandSettingsOpen && (
+                <BrandSettingsModal
+                    brandConfig={brandConfig}
+                    defaultBrandConfig={tenant.brandConfig}
+                    knownBrands={knownBrands}
+                    onSave={handleBrandConfigSave}
+                    onClose={() => setIsBrandSettingsOpen(false)}
+                />
+            )}
+            {isDataExportOpen && (
+                <DataExportModal
+                    defaultFileName={tenant.exportNames.rawData.replace(/\.[^.]+$/, '')}
+                    getRows={getDataExportRows}
+                    onClose={() => setIsDataExportOpen(false)}
+                />
+            )}
+            {isSlotSettingsOpen && (
+                <SlotSettingsModal
+                    slotConfig={slotConfig}
+                    defaultSlotConfig={tenant.slotConfig}
+                    slotNames={slotNames}
+                    onSave={handleSlotConfigSave}
+                    onClose={() => setIsSlotSettingsOpen(false)}
+                />
+            )}
+            {isDisplaySettingsOpen && (
+                <DisplaySettingsModal
+                    displayOptions={displayOptions}
+                    platforms={filterOptions.platforms}
+                    onSave={handleDisplayOptionsSave}
+                    onClose={() => setIsDisplaySettingsOpen(false)}
+                />
+            )}
+            {isAlertRulesOpen && (
+                <AlertRulesModal rules={alertRules} onSave={handleAlertRulesSave} onClose={() => setIsAlertRulesOpen(false)} />
+            )}
         </div>
     );
 };
 
-const LoginScreen: React.FC<{ onLoginSuccess: () => void }> = ({ onLoginSuccess }) => {
+const LoginScreen: React.FC<{ onLoginSuccess: (session: AuthSession) => void }> = ({ onLoginSuccess }) => {
     const [accountName, setAccountName] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
 
     const handleLogin = (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
-        if (accountName === 'Grupobimbo' && password === 'Grupobimbo') {
-            onLoginSuccess();
-        } else {
-            setError('Invalid credentials. Please try again.');
-        }
+        setIsSubmitting(true);
+        login(accountName, password)
+            .then(onLoginSuccess)
+            .catch(err => {
+                setError(err instanceof Error ? err.message : 'Sign-in failed. Please try again.');
+                setIsSubmitting(false);
+            });
     };
 
     return (
         <div className="flex items-center justify-center min-h-screen bg-gray-100">
             <div className="w-full max-w-sm p-8 space-y-6 bg-white rounded-xl shadow-lg">
                 <div className="text-center">
-                    <h1 className="text-3xl font-bold text-gray-800">Grupo Bimbo</h1>
-                    <p className="mt-2 text-gray-500">SOV Dashboard Login</p>
+                    <h1 className="text-3xl font-bold text-gray-800">SOV Dashboard</h1>
+                    <p className="mt-2 text-gray-500">Sign in to your workspace</p>
                 </div>
                 <form className="mt-8 space-y-6" onSubmit={handleLogin}>
                     <div className="space-y-4">
@@ -475,9 +2592,10 @@ const LoginScreen: React.FC<{ onLoginSuccess: () => void }> = ({ onLoginSuccess
                     <div>
                         <button
                             type="submit"
-                            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 mt-6"
+                            disabled={isSubmitting}
+                            className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 mt-6 disabled:bg-indigo-300 disabled:cursor-not-allowed"
                         >
-                            Sign in
+                            {isSubmitting ? 'Signing in...' : 'Sign in'}
                         </button>
                     </div>
                 </form>
@@ -486,14 +2604,76 @@ const LoginScreen: React.FC<{ onLoginSuccess: () => void }> = ({ onLoginSuccess
     );
 };
 
+// setTimeout can't wait longer than about 24.8 days; longer sessions are re-checked on the next reload instead.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 const App: React.FC = () => {
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [session, setSession] = useState<AuthSession | null>(restoreSession);
+  const [tenant, setTenant] = useState<TenantConfig | null>(null);
+  const [tenantError, setTenantError] = useState<string | null>(null);
+
+  // Sign out automatically when the session expires while the dashboard is open.
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => {
+      clearSession();
+      setSession(null);
+    }, Math.min(Math.max(0, session.expiresAt - Date.now()), MAX_TIMEOUT_MS));
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  // The workspace decides which data, brands and branding the dashboard shows, so nothing renders until it arrives.
+  useEffect(() => {
+    setTenant(null);
+    setTenantError(null);
+    if (!session) return;
+    let isStale = false;
+    fetchTenantConfig(session)
+      .then(config => {
+        if (!isStale) setTenant(config);
+      })
+      .catch(err => {
+        if (isStale) return;
+        console.error(err);
+        if (isSessionExpiredError(err)) {
+          clearSession();
+          setSession(null);
+          return;
+        }
+        setTenantError(err instanceof Error ? err.message : 'Could not load your workspace.');
+      });
+    return () => { isStale = true; };
+  }, [session]);
+
+  const handleLogout = () => {
+    if (session) logout(session);
+    setSession(null);
+  };
 
-  if (!isLoggedIn) {
-    return <LoginScreen onLoginSuccess={() => setIsLoggedIn(true)} />;
+  if (!session) {
+    return <LoginScreen onLoginSuccess={setSession} />;
+  }
+
+  if (tenantError) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 gap-4">
+        <p className="text-red-600">{tenantError}</p>
+        <button onClick={handleLogout} className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+          Log out
+        </button>
+      </div>
+    );
+  }
+
+  if (!tenant) {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-slate-100">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+      </div>
+    );
   }
 
-  return <Dashboard />;
+  return <Dashboard key={tenant.id} session={session} tenant={tenant} onLogout={handleLogout} />;
 };
 
 export default App;
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import type { PivotedData, TableRow, SovType } from './types';
+import { TableRowType } from './types';
+import { ALL_SLOTS } from './pivotEngine';
+import { getBrandColor } from './brandColors';
+
+const OTHERS_COLOR = '#e5e7eb';
+
+export interface ChartRowSelection {
+  platform: string;
+  city: string;
+}
+
+interface ChartSeries {
+  name: string;
+  color: string;
+  values: (number | null)[];
+}
+
+// Rounds the axis up to the next multiple of 10 so gridlines land on whole percentages.
+const getAxisMax = (series: ChartSeries[]): number => {
+  const max = Math.max(0, ...series.flatMap(s => s.values.filter((v): v is number => v !== null)));
+  return Math.min(100, Math.max(10, Math.ceil(max / 10) * 10));
+};
+
+const ChartLegend: React.FC<{ series: { name: string; color: string }[] }> = ({ series }) => (
+  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+    {series.map(s => (
+      <span key={s.name} className="flex items-center text-xs text-gray-600">
+        <span className="inline-block h-2.5 w-2.5 rounded-sm mr-1.5" style={{ backgroundColor: s.color }} />
+        {s.name}
+      </span>
+    ))}
+  </div>
+);
+
+interface LineChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  compact?: boolean;
+}
+
+const LineChart: React.FC<LineChartProps> = ({ labels, series, compact = false }) => {
+  const width = compact ? 280 : 640;
+  const height = compact ? 150 : 280;
+  const padding = compact ? { top: 8, right: 8, bottom: 20, left: 28 } : { top: 12, right: 16, bottom: 28, left: 40 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const axisMax = getAxisMax(series);
+  const gridSteps = compact ? 2 : 5;
+
+  const x = (index: number) => padding.left + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => padding.top + plotHeight - (value / axisMax) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img">
+      {Array.from({ length: gridSteps + 1 }, (_, i) => {
+        const value = (axisMax / gridSteps) * i;
+        return (
+          <g key={i}>
+            <line x1={padding.left} x2={width - padding.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+            <text x={padding.left - 4} y={y(value) + 3} textAnchor="end" fontSize={compact ? 8 : 10} fill="#6b7280">{value}%</text>
+          </g>
+        );
+      })}
+      {labels.map((label, i) => (
+        <text key={label} x={x(i)} y={height - padding.bottom + (compact ? 12 : 16)} textAnchor="middle" fontSize={compact ? 8 : 10} fill="#6b7280">{label}</text>
+      ))}
+      {series.map(s => {
+        const points = s.values
+          .map((value, i) => value === null ? null : { x: x(i), y: y(value), value, label: labels[i] })
+          .filter((p): p is { x: number; y: number; value: number; label: string } => p !== null);
+        return (
+          <g key={s.name}>
+            <polyline points={points.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke={s.color} strokeWidth={compact ? 1.5 : 2} />
+            {points.map(p => (
+              <circle key={p.label} cx={p.x} cy={p.y} r={compact ? 2 : 3.5} fill={s.color}>
+                <title>{`${s.name} · ${p.label}: ${p.value.toFixed(2)}%`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+interface StackedBarChartProps {
+  categories: string[];
+  series: ChartSeries[];
+}
+
+// Bars are stacked to 100%, with whatever the visible brands don't cover shown as "Others".
+const StackedBarChart: React.FC<StackedBarChartProps> = ({ categories, series }) => {
+  const width = 640;
+  const height = 280;
+  const padding = { top: 12, right: 16, bottom: 28, left: 40 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const slotWidth = categories.length > 0 ? plotWidth / categories.length : plotWidth;
+  const barWidth = Math.min(64, slotWidth * 0.6);
+  const y = (value: number) => padding.top + plotHeight - (value / 100) * plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img">
+      {[0, 25, 50, 75, 100].map(value => (
+        <g key={value}>
+          <line x1={padding.left} x2={width - padding.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+          <text x={padding.left - 4} y={y(value) + 3} textAnchor="end" fontSize={10} fill="#6b7280">{value}%</text>
+        </g>
+      ))}
+      {categories.map((category, i) => {
+        const barX = padding.left + slotWidth * i + (slotWidth - barWidth) / 2;
+        let cumulative = 0;
+        const segments = series.map(s => {
+          const value = s.values[i] ?? 0;
+          const segment = { name: s.name, color: s.color, value, from: cumulative };
+          cumulative += value;
+          return segment;
+        });
+        const others = Math.max(0, 100 - cumulative);
+        return (
+          <g key={category}>
+            {segments.filter(seg => seg.value > 0).map(seg => (
+              <rect key={seg.name} x={barX} y={y(seg.from + seg.value)} width={barWidth} height={y(seg.from) - y(seg.from + seg.value)} fill={seg.color}>
+                <title>{`${category} · ${seg.name}: ${seg.value.toFixed(2)}%`}</title>
+              </rect>
+            ))}
+            {others > 0 && (
+              <rect x={barX} y={y(100)} width={barWidth} height={y(cumulative) - y(100)} fill={OTHERS_COLOR}>
+                <title>{`${category} · Others: ${others.toFixed(2)}%`}</title>
+              </rect>
+            )}
+            <text x={barX + barWidth / 2} y={height - padding.bottom + 16} textAnchor="middle" fontSize={10} fill="#6b7280">{category}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+interface ChartsViewProps {
+  // Expected to include platform totals, the grand total and the All Slots column.
+  pivotedData: PivotedData;
+  sovType: SovType;
+  selectedRow: ChartRowSelection | null;
+  onSelectRow: (row: ChartRowSelection) => void;
+}
+
+export const ChartsView: React.FC<ChartsViewProps> = ({ pivotedData, sovType, selectedRow, onSelectRow }) => {
+  const { headers, rows } = pivotedData;
+  const months = headers.months.map(m => m.name);
+  const slots = headers.months[0]?.slots.map(s => s.name) ?? [];
+  const platforms = [...new Set(rows.filter(r => r.rowType !== TableRowType.GrandTotal).map(r => r.platform))];
+
+  const [slot, setSlot] = useState<string>(slots.includes(ALL_SLOTS) ? ALL_SLOTS : slots[0] ?? '');
+  const [barMonth, setBarMonth] = useState<string>('');
+  const [multiplesPlatform, setMultiplesPlatform] = useState<string>('');
+
+  if (rows.length === 0) {
+    return <div className="text-center py-10 bg-white rounded-lg shadow-md">No data available for the selected categories.</div>;
+  }
+
+  const activeSlot = slots.includes(slot) ? slot : slots[0] ?? '';
+  const activeBarMonth = months.includes(barMonth) ? barMonth : months[months.length - 1];
+  const activeMultiplesPlatform = platforms.includes(multiplesPlatform) ? multiplesPlatform : platforms[0];
+  const trendRow = rows.find(r => selectedRow && r.platform === selectedRow.platform && r.city === selectedRow.city) ?? rows[0];
+
+  const getValue = (row: TableRow | undefined, month: string, brand: string): number | null =>
+    row?.data[month]?.[activeSlot]?.[brand]?.[sovType] ?? null;
+  const getTrendSeries = (row: TableRow): ChartSeries[] => headers.allBrands.map(brand => ({
+    name: brand,
+    color: getBrandColor(headers.allBrands, brand),
+    values: months.map(month => getValue(row, month, brand)),
+  }));
+
+  const platformTotals = platforms.map(platform => rows.find(r => r.platform === platform && r.rowType === TableRowType.PlatformTotal));
+  const barSeries: ChartSeries[] = headers.allBrands.map(brand => ({
+    name: brand,
+    color: getBrandColor(headers.allBrands, brand),
+    values: platformTotals.map(row => getValue(row, activeBarMonth, brand)),
+  }));
+  const cityRows = rows.filter(r => r.platform === activeMultiplesPlatform && r.rowType === TableRowType.City);
+
+  const selectClass = "bg-white border border-gray-300 rounded-md shadow-sm px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+  const legend = headers.allBrands.map(brand => ({ name: brand, color: getBrandColor(headers.allBrands, brand) }));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-gray-700">{sovType} Trend &middot; {trendRow.platform} / {trendRow.city}</h3>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={`${trendRow.platform}|${trendRow.city}`}
+              onChange={e => {
+                const [platform, city] = e.target.value.split('|');
+                onSelectRow({ platform, city });
+              }}
+              className={selectClass}
+            >
+              {rows.map(r => <option key={`${r.platform}|${r.city}`} value={`${r.platform}|${r.city}`}>{r.platform} / {r.city}</option>)}
+            </select>
+            <select value={activeSlot} onChange={e => setSlot(e.target.value)} className={selectClass}>
+              {slots.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+        </div>
+        <LineChart labels={months} series={getTrendSeries(trendRow)} />
+        <ChartLegend series={legend} />
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-gray-700">Brand Share by Platform &middot; {activeSlot}</h3>
+          <select value={activeBarMonth} onChange={e => setBarMonth(e.target.value)} className={selectClass}>
+            {months.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+        </div>
+        <StackedBarChart categories={platforms} series={barSeries} />
+        <ChartLegend series={[...legend, { name: 'Others', color: OTHERS_COLOR }]} />
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-gray-700">City Trends &middot; {activeSlot}</h3>
+          <select value={activeMultiplesPlatform} onChange={e => setMultiplesPlatform(e.target.value)} className={selectClass}>
+            {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+          {cityRows.map(row => (
+            <button
+              key={row.city}
+              onClick={() => onSelectRow({ platform: row.platform, city: row.city })}
+              className="text-left border border-gray-200 rounded-md p-2 hover:border-indigo-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <p className="text-sm font-medium text-gray-700 mb-1">{row.city}</p>
+              <LineChart labels={months} series={getTrendSeries(row)} compact />
+            </button>
+          ))}
+        </div>
+        <ChartLegend series={legend} />
+      </div>
+    </div>
+  );
+};
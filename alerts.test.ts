@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { RawDataRow, AlertRule } from './types';
+import { AlertRuleType, AlertBrandTarget, SovType } from './types';
+import { evaluateAlerts, parseAlertRules } from './alerts';
+import { rawRow, pivot } from './testFixtures';
+
+const row = (city: string, month: string, brand: string, total: number, ad = 0): RawDataRow =>
+    rawRow({ CITY: city, CRAWL_MONTH: month, BRAND: brand, total, ad, organic: total - ad });
+
+const aggregateOptions = { showPlatformTotals: false, showGrandTotal: false, showAllSlots: false };
+
+const rule = (overrides: Partial<AlertRule>): AlertRule => ({
+    id: 'rule', type: AlertRuleType.SovDrop, brands: AlertBrandTarget.FocusBrand, sovType: SovType.Overall, threshold: 5, enabled: true, ...overrides,
+});
+
+describe('evaluateAlerts', () => {
+    const pivotedData = pivot([
+        row('Pune', 'May-25', 'BIN', 40, 10), row('Pune', 'May-25', 'Britannia', 60, 5),
+        row('Pune', 'Jun-25', 'BIN', 30, 10), row('Pune', 'Jun-25', 'Britannia', 70, 30),
+        row('Delhi', 'May-25', 'BIN', 50), row('Delhi', 'May-25', 'Britannia', 50),
+        row('Delhi', 'Jun-25', 'BIN', 48), row('Delhi', 'Jun-25', 'Britannia', 52),
+        row('Agra', 'May-25', 'BIN', 10),
+    ], { aggregateOptions });
+
+    it('flags focus brand drops of at least the threshold between the last two periods', () => {
+        const hits = evaluateAlerts(pivotedData, [rule({})], 'BIN');
+
+        expect(hits.map(hit => [hit.city, hit.brand, hit.previousPeriod, hit.period, hit.previous, hit.current])).toEqual([
+            ['Pune', 'BIN', "May'25", "Jun'25", 40, 30],
+        ]);
+        expect(hits[0].message).toBe('BIN Overall SOV in Morning SOV fell 10.00 pp, 40.00% to 30.00%');
+    });
+
+    it('flags competitors whose share multiplied, ignoring the focus brand', () => {
+        const hits = evaluateAlerts(pivotedData, [rule({ type: AlertRuleType.SovMultiplied, brands: AlertBrandTarget.Competitors, sovType: SovType.Ad, threshold: 2 })], 'BIN');
+
+        expect(hits.map(hit => [hit.city, hit.brand])).toEqual([['Pune', 'Britannia']]);
+        expect(hits[0].previous).toBeCloseTo(100 / 3);
+        expect(hits[0].current).toBe(75);
+        expect(hits[0].message).toBe('Britannia Ad SOV in Morning SOV grew 2.3\u00D7, 33.33% to 75.00%');
+    });
+
+    it('raises one alert for a row missing from the latest period instead of a drop per brand', () => {
+        const hits = evaluateAlerts(pivotedData, [rule({ brands: AlertBrandTarget.AnyBrand, threshold: 1 }), rule({ id: 'missing', type: AlertRuleType.MissingFromLatest })], 'BIN');
+
+        expect(hits.map(hit => [hit.ruleId, hit.city, hit.brand])).toEqual([
+            ['rule', 'Delhi', 'BIN'],
+            ['rule', 'Pune', 'BIN'],
+            ['missing', 'Agra', null],
+        ]);
+    });
+
+    it('counts a row crawled only for hidden brands as present', () => {
+        const withHiddenBrand = pivot([row('Agra', 'May-25', 'BIN', 10), row('Agra', 'Jun-25', 'Wibs', 10)], { aggregateOptions });
+
+        expect(evaluateAlerts(withHiddenBrand, [rule({ id: 'missing', type: AlertRuleType.MissingFromLatest })], 'BIN')).toEqual([]);
+    });
+
+    it('skips disabled rules and needs two periods', () => {
+        expect(evaluateAlerts(pivotedData, [rule({ enabled: false })], 'BIN')).toEqual([]);
+        expect(evaluateAlerts(pivot([row('Pune', 'Jun-25', 'BIN', 10)], { aggregateOptions }), [rule({ threshold: 0 })], 'BIN')).toEqual([]);
+    });
+});
+
+describe('parseAlertRules', () => {
+    it('rejects rules with unknown types or negative thresholds', () => {
+        expect(() => parseAlertRules([{ ...rule({}), type: 'Sideways' }])).toThrow('unknown "type"');
+        expect(() => parseAlertRules([rule({ threshold: -1 })])).toThrow('non-negative');
+        expect(parseAlertRules([{ ...rule({}), enabled: undefined }])[0].enabled).toBe(true);
+    });
+});
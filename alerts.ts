@@ -0,0 +1,138 @@
+import type { AlertRule, AlertHit, PivotedData } from './types';
+import { AlertRuleType, AlertBrandTarget, SovType, TableRowType } from './types';
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+    { id: 'focus-overall-drop', type: AlertRuleType.SovDrop, brands: AlertBrandTarget.FocusBrand, sovType: SovType.Overall, threshold: 5, enabled: true },
+    { id: 'competitor-ad-doubled', type: AlertRuleType.SovMultiplied, brands: AlertBrandTarget.Competitors, sovType: SovType.Ad, threshold: 2, enabled: true },
+    { id: 'missing-from-latest', type: AlertRuleType.MissingFromLatest, brands: AlertBrandTarget.AnyBrand, sovType: SovType.Overall, threshold: 0, enabled: true },
+];
+
+// Below this share a multiple is mostly noise: 0.2% to 0.5% "more than doubled" but nobody needs to look at it.
+const MIN_MULTIPLIED_SOV = 1;
+
+const getStorageKey = (tenantId: string) => `sov-dashboard.alertRules.${tenantId}`;
+
+export const describeAlertRule = (rule: AlertRule): string => {
+    const subject = `${rule.brands} ${rule.sovType}`;
+    switch (rule.type) {
+        case AlertRuleType.SovDrop: return `${subject} drops by ${rule.threshold} pp or more`;
+        case AlertRuleType.SovRise: return `${subject} rises by ${rule.threshold} pp or more`;
+        case AlertRuleType.SovMultiplied: return `${subject} grows ${rule.threshold}\u00D7 or more`;
+        case AlertRuleType.MissingFromLatest: return 'A city or platform is missing from the latest period';
+    }
+};
+
+const getRuleBrands = (rule: AlertRule, brands: string[], focusBrand: string): string[] => {
+    if (rule.brands === AlertBrandTarget.FocusBrand) return brands.filter(brand => brand === focusBrand);
+    if (rule.brands === AlertBrandTarget.Competitors) return brands.filter(brand => brand !== focusBrand);
+    return brands;
+};
+
+const isTriggered = (rule: AlertRule, previous: number, current: number): boolean => {
+    if (rule.type === AlertRuleType.SovDrop) return previous - current >= rule.threshold;
+    if (rule.type === AlertRuleType.SovRise) return current - previous >= rule.threshold;
+    return previous > 0 && current >= MIN_MULTIPLIED_SOV && current >= previous * rule.threshold;
+};
+
+const describeMove = (rule: AlertRule, previous: number, current: number): string => {
+    const values = `${previous.toFixed(2)}% to ${current.toFixed(2)}%`;
+    if (rule.type === AlertRuleType.SovMultiplied) return `grew ${(current / previous).toFixed(1)}\u00D7, ${values}`;
+    return `${current < previous ? 'fell' : 'rose'} ${Math.abs(current - previous).toFixed(2)} pp, ${values}`;
+};
+
+// Evaluates the enabled rules on the latest period against the one before, in rule order and then the table's
+// row order. SOV moves are only checked on rows with data in both periods, so a row that appears or vanishes
+// raises a single MissingFromLatest alert rather than a drop for every brand.
+export const evaluateAlerts = (pivotedData: PivotedData, rules: AlertRule[], focusBrand: string): AlertHit[] => {
+    const { headers, rows } = pivotedData;
+    if (headers.months.length < 2) return [];
+    const latest = headers.months[headers.months.length - 1];
+    const period = latest.name;
+    const previousPeriod = headers.months[headers.months.length - 2].name;
+
+    return rules.filter(rule => rule.enabled).flatMap(rule => rows.flatMap((row): AlertHit[] => {
+        const inPrevious = row.periods.includes(previousPeriod);
+        const inLatest = row.periods.includes(period);
+        const location = { ruleId: rule.id, type: rule.type, platform: row.platform, city: row.city, rowType: row.rowType, sovType: rule.sovType, previousPeriod, period };
+
+        if (rule.type === AlertRuleType.MissingFromLatest) {
+            if (row.rowType === TableRowType.GrandTotal || !inPrevious || inLatest) return [];
+            return [{ ...location, slot: null, brand: null, previous: null, current: null, message: `Reported in ${previousPeriod} but not in ${period}` }];
+        }
+        if (!inPrevious || !inLatest) return [];
+
+        return latest.slots.flatMap(slot => getRuleBrands(rule, slot.brands, focusBrand).flatMap(brand => {
+            const current = row.data[period]?.[slot.name]?.[brand]?.[rule.sovType];
+            const previous = row.data[previousPeriod]?.[slot.name]?.[brand]?.[rule.sovType];
+            if (current === undefined || previous === undefined || !isTriggered(rule, previous, current)) return [];
+            return [{
+                ...location,
+                slot: slot.name,
+                brand,
+                previous,
+                current,
+                message: `${brand} ${rule.sovType} in ${slot.name} ${describeMove(rule, previous, current)}`,
+            }];
+        }));
+    }));
+};
+
+const round = (value: number | null): number | null => value === null ? null : Math.round(value * 100) / 100;
+
+export const getAlertExportRows = (hits: AlertHit[], rules: AlertRule[]): object[] =>
+    hits.map(hit => {
+        const rule = rules.find(r => r.id === hit.ruleId);
+        return {
+            RULE: rule ? describeAlertRule(rule) : hit.type,
+            PLATFORM: hit.platform,
+            CITY: hit.city,
+            SLOT: hit.slot ?? '',
+            BRAND: hit.brand ?? '',
+            SOV_TYPE: hit.brand ? hit.sovType : '',
+            PREVIOUS_PERIOD: hit.previousPeriod,
+            PERIOD: hit.period,
+            PREVIOUS_SOV: round(hit.previous),
+            CURRENT_SOV: round(hit.current),
+            CHANGE_PP: hit.previous !== null && hit.current !== null ? round(hit.current - hit.previous) : null,
+            MESSAGE: hit.message,
+        };
+    });
+
+export const parseAlertRules = (value: unknown): AlertRule[] => {
+    if (!Array.isArray(value)) {
+        throw new Error('Alert rules must be a JSON list.');
+    }
+    return value.map((rule, index) => {
+        if (!rule || typeof rule !== 'object') {
+            throw new Error(`Alert rule ${index + 1} must be an object.`);
+        }
+        const { id, type, brands, sovType, threshold, enabled } = rule as Record<string, unknown>;
+        if (typeof id !== 'string' || !id) {
+            throw new Error(`Alert rule ${index + 1} needs an "id".`);
+        }
+        if (!Object.values(AlertRuleType).includes(type as AlertRuleType)) {
+            throw new Error(`Alert rule "${id}" has an unknown "type".`);
+        }
+        if (!Object.values(AlertBrandTarget).includes(brands as AlertBrandTarget) || !Object.values(SovType).includes(sovType as SovType)) {
+            throw new Error(`Alert rule "${id}" needs "brands" and "sovType".`);
+        }
+        if (typeof threshold !== 'number' || !isFinite(threshold) || threshold < 0) {
+            throw new Error(`Alert rule "${id}" needs a non-negative "threshold".`);
+        }
+        return { id, type: type as AlertRuleType, brands: brands as AlertBrandTarget, sovType: sovType as SovType, threshold, enabled: enabled !== false };
+    });
+};
+
+export const loadAlertRules = (tenantId: string): AlertRule[] => {
+    try {
+        const stored = localStorage.getItem(getStorageKey(tenantId));
+        return stored ? parseAlertRules(JSON.parse(stored)) : DEFAULT_ALERT_RULES;
+    } catch (error) {
+        console.warn('Ignoring invalid stored alert rules:', error);
+        return DEFAULT_ALERT_RULES;
+    }
+};
+
+export const saveAlertRules = (tenantId: string, rules: AlertRule[]) => {
+    localStorage.setItem(getStorageKey(tenantId), JSON.stringify(rules));
+};
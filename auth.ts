@@ -0,0 +1,72 @@
+import type { AuthSession } from './types';
+
+// The sign-in service. In development this is served by the mock in mockAuthServer.ts.
+export const AUTH_API_URL = process.env.AUTH_API_URL || '/api/auth';
+const SESSION_STORAGE_KEY = 'sov-dashboard.session';
+
+const isAuthSession = (value: unknown): value is AuthSession => {
+    const session = value as AuthSession;
+    return !!session && typeof session.token === 'string' && typeof session.expiresAt === 'number'
+        && !!session.account && typeof session.account.id === 'string' && typeof session.account.displayName === 'string'
+        && typeof session.account.tenantId === 'string';
+};
+
+export const clearSession = () => {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+// Returns the stored session if it hasn't expired yet, so a reload doesn't bring back the sign-in screen.
+export const restoreSession = (): AuthSession | null => {
+    try {
+        const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+        const session: unknown = stored ? JSON.parse(stored) : null;
+        if (isAuthSession(session) && session.expiresAt > Date.now()) {
+            return session;
+        }
+    } catch (error) {
+        console.warn('Ignoring invalid stored session:', error);
+    }
+    clearSession();
+    return null;
+};
+
+export const login = async (accountName: string, password: string): Promise<AuthSession> => {
+    let response: Response;
+    try {
+        response = await fetch(`${AUTH_API_URL}/login`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ accountName, password }),
+        });
+    } catch (error) {
+        console.error('Sign-in request failed:', error);
+        throw new Error('Could not reach the sign-in service. Please check your network connection.');
+    }
+
+    if (response.status === 401) {
+        throw new Error('Invalid credentials. Please try again.');
+    }
+    if (!response.ok) {
+        throw new Error(`Sign-in failed (${response.status}). Please try again later.`);
+    }
+
+    const session: unknown = await response.json();
+    if (!isAuthSession(session)) {
+        throw new Error('The sign-in service returned an unexpected response.');
+    }
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    return session;
+};
+
+// The local session is always cleared, even if the service can't be told about it.
+export const logout = async (session: AuthSession): Promise<void> => {
+    clearSession();
+    try {
+        await fetch(`${AUTH_API_URL}/logout`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${session.token}` },
+        });
+    } catch (error) {
+        console.warn('Could not notify the sign-in service about the logout:', error);
+    }
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import type { PivotedData, CellImpressions } from './types';
+import { SovType } from './types';
+import { getBenchmarkCells } from './benchmark';
+import { tableRow } from './testFixtures';
+
+const pivotedData: PivotedData = {
+    headers: { months: [{ name: "Jun'25", slots: [{ name: 'Morning SOV', brands: ['BIN', 'Britannia'] }] }], allBrands: ['BIN', 'Britannia'] },
+    rows: [tableRow({ isFirstInPlatform: true })],
+};
+
+const cellImpressions: CellImpressions = {
+    "Blinkit|Pune|Jun'25|Morning SOV": {
+        BIN: { total: 20, ad: 10, organic: 10 },
+        Britannia: { total: 50, ad: 10, organic: 40 },
+        Wibs: { total: 30, ad: 30, organic: 0 },
+    },
+};
+
+describe('getBenchmarkCells', () => {
+    it('ranks every brand and compares the focus brand with the leader by default', () => {
+        const [cell] = getBenchmarkCells(pivotedData, cellImpressions, { focusBrand: 'BIN', competitorBrand: null }, SovType.Overall);
+
+        expect(cell.brands.map(b => [b.brand, b.rank])).toEqual([['Britannia', 1], ['Wibs', 2], ['BIN', 3]]);
+        expect(cell.focus.sov[SovType.Overall]).toBe(20);
+        expect(cell.comparison?.brand).toBe('Britannia');
+        expect(cell.gap?.[SovType.Overall]).toBe(-30);
+        expect(cell.focus.paidShare).toBe(50);
+    });
+
+    it('compares with the chosen competitor, including hidden brands, and gives tied brands the same rank', () => {
+        const [cell] = getBenchmarkCells(pivotedData, cellImpressions, { focusBrand: 'BIN', competitorBrand: 'Wibs' }, SovType.Ad);
+
+        expect(cell.brands.map(b => [b.brand, b.rank])).toEqual([['Wibs', 1], ['BIN', 2], ['Britannia', 2]]);
+        expect(cell.comparison?.brand).toBe('Wibs');
+        expect(cell.gap?.[SovType.Ad]).toBe(-40);
+        expect(cell.comparison?.paidShare).toBe(100);
+    });
+
+    it('skips cells without impressions and ranks a focus brand that has none last', () => {
+        const cells = getBenchmarkCells(pivotedData, cellImpressions, { focusBrand: 'Bonn', competitorBrand: null }, SovType.Overall);
+
+        expect(cells).toHaveLength(1);
+        expect(cells[0].focus).toMatchObject({ brand: 'Bonn', rank: 4, paidShare: null });
+        expect(getBenchmarkCells(pivotedData, {}, { focusBrand: 'BIN', competitorBrand: null }, SovType.Overall)).toEqual([]);
+    });
+});
@@ -0,0 +1,103 @@
+import type { PivotedData, CellImpressions, Impressions, BenchmarkOptions, BenchmarkCell, BrandBenchmark, SovValues } from './types';
+import { SovType } from './types';
+import { getSovValues } from './pivotEngine';
+
+const NO_IMPRESSIONS: Impressions = { total: 0, ad: 0, organic: 0 };
+
+const sumImpressions = (byBrand: { [brand: string]: Impressions }): Impressions =>
+    Object.values(byBrand).reduce(
+        (sum, impressions) => ({ total: sum.total + impressions.total, ad: sum.ad + impressions.ad, organic: sum.organic + impressions.organic }),
+        NO_IMPRESSIONS
+    );
+
+// Ranks every brand in a cell by one SOV type against the same all-brand totals as the pivot.
+// Brands in alsoInclude are ranked with zero impressions when the cell has none of theirs.
+const rankBrands = (byBrand: { [brand: string]: Impressions }, alsoInclude: string[], sovType: SovType): BrandBenchmark[] => {
+    const totals = sumImpressions(byBrand);
+    const brands = [...new Set([...Object.keys(byBrand), ...alsoInclude])].map(brand => {
+        const impressions = byBrand[brand] ?? NO_IMPRESSIONS;
+        const placements = impressions.ad + impressions.organic;
+        return {
+            brand,
+            rank: 0,
+            sov: getSovValues(impressions, totals),
+            paidShare: placements > 0 ? (impressions.ad / placements) * 100 : null,
+        };
+    });
+    brands.sort((a, b) => b.sov[sovType] - a.sov[sovType] || a.brand.localeCompare(b.brand));
+    brands.forEach((entry, index) => {
+        const previous = brands[index - 1];
+        entry.rank = previous && previous.sov[sovType] === entry.sov[sovType] ? previous.rank : index + 1;
+    });
+    return brands;
+};
+
+const getGap = (focus: BrandBenchmark, comparison: BrandBenchmark): SovValues => ({
+    [SovType.Overall]: focus.sov[SovType.Overall] - comparison.sov[SovType.Overall],
+    [SovType.Ad]: focus.sov[SovType.Ad] - comparison.sov[SovType.Ad],
+    [SovType.Organic]: focus.sov[SovType.Organic] - comparison.sov[SovType.Organic],
+});
+
+// One entry per cell of the pivot that has impressions, in the pivot's row and column order.
+export const getBenchmarkCells = (
+    pivotedData: PivotedData,
+    cellImpressions: CellImpressions,
+    options: BenchmarkOptions,
+    sovType: SovType
+): BenchmarkCell[] => {
+    const { focusBrand } = options;
+    if (!focusBrand) return [];
+    const competitorBrand = options.competitorBrand !== focusBrand ? options.competitorBrand : null;
+
+    return pivotedData.rows.flatMap(row =>
+        pivotedData.headers.months.flatMap(month =>
+            month.slots.flatMap(slot => {
+                const byBrand = cellImpressions[`${row.platform}|${row.city}|${month.name}|${slot.name}`];
+                if (!byBrand) return [];
+                const brands = rankBrands(byBrand, competitorBrand ? [focusBrand, competitorBrand] : [focusBrand], sovType);
+                // Always found, since rankBrands lists the brands in alsoInclude; the check only narrows the type.
+                const focus = brands.find(b => b.brand === focusBrand);
+                if (!focus) return [];
+                const comparison = brands.find(b => competitorBrand ? b.brand === competitorBrand : b.brand !== focusBrand) ?? null;
+                return [{
+                    platform: row.platform,
+                    city: row.city,
+                    rowType: row.rowType,
+                    period: month.name,
+                    slot: slot.name,
+                    brands,
+                    focus,
+                    comparison,
+                    gap: comparison && getGap(focus, comparison),
+                }];
+            })
+        )
+    );
+};
+
+const round = (value: number | null | undefined): number | null =>
+    value === null || value === undefined ? null : Math.round(value * 100) / 100;
+
+// The benchmark sheet: one row per cell, SOVs and paid shares in percent and gaps in percentage points.
+export const getBenchmarkExportRows = (cells: BenchmarkCell[], sovType: SovType): object[] =>
+    cells.map(({ platform, city, period, slot, brands, focus, comparison, gap }) => ({
+        PLATFORM: platform,
+        CITY: city,
+        PERIOD: period,
+        SLOT: slot,
+        RANKED_BY: sovType,
+        LEADER: brands[0].brand,
+        LEADER_SOV: round(brands[0].sov[sovType]),
+        FOCUS_BRAND: focus.brand,
+        FOCUS_RANK: focus.rank,
+        FOCUS_SOV: round(focus.sov[sovType]),
+        COMPARED_WITH: comparison?.brand ?? '',
+        COMPARED_RANK: comparison?.rank ?? null,
+        COMPARED_SOV: round(comparison?.sov[sovType]),
+        OVERALL_GAP_PP: round(gap?.[SovType.Overall]),
+        AD_GAP_PP: round(gap?.[SovType.Ad]),
+        ORGANIC_GAP_PP: round(gap?.[SovType.Organic]),
+        FOCUS_PAID_SHARE: round(focus.paidShare),
+        COMPARED_PAID_SHARE: round(comparison?.paidShare),
+        BRANDS_RANKED: brands.length,
+    }));
@@ -0,0 +1,7 @@
+// The brand palette shared by the on-screen charts and the client report, so a brand keeps its colour in both.
+const BRAND_COLORS = ['#4f46e5', '#dc2626', '#16a34a', '#d97706', '#0891b2', '#9333ea', '#db2777', '#65a30d', '#475569'];
+
+export const getBrandColor = (brands: string[], brand: string): string => {
+    const index = brands.indexOf(brand);
+    return BRAND_COLORS[(index === -1 ? brands.length : index) % BRAND_COLORS.length];
+};
@@ -0,0 +1,67 @@
+import type { BrandConfig, BrandGroup, BrandAlias } from './types';
+
+// Settings are stored per workspace so switching accounts on a shared machine doesn't mix clients' brands.
+const getStorageKey = (tenantId: string) => `sov-dashboard.brandConfig.${tenantId}`;
+
+const normaliseName = (name: string): string => name.trim().toLowerCase();
+
+// Builds a lookup from any spelling in the data to the brand name used in the report.
+// Aliases are resolved first, then the canonical name is clubbed into its parent group.
+export const createBrandResolver = (config: BrandConfig): ((brand: string) => string) => {
+    const aliasLookup = new Map<string, string>();
+    config.aliases.forEach(alias => {
+        aliasLookup.set(normaliseName(alias.canonical), alias.canonical);
+        alias.spellings.forEach(spelling => aliasLookup.set(normaliseName(spelling), alias.canonical));
+    });
+
+    const groupLookup = new Map<string, string>();
+    config.groups.forEach(group => {
+        group.members.forEach(member => groupLookup.set(normaliseName(member), group.name));
+    });
+
+    return (brand: string) => {
+        const canonical = aliasLookup.get(normaliseName(brand)) ?? brand.trim();
+        return groupLookup.get(normaliseName(canonical)) ?? canonical;
+    };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Validates imported JSON so a malformed file can't leave the dashboard with a half-usable config.
+export const parseBrandConfig = (value: unknown): BrandConfig => {
+    if (!value || typeof value !== 'object') {
+        throw new Error('Brand configuration must be a JSON object.');
+    }
+    const { groups, aliases, visibleBrands } = value as Record<string, unknown>;
+
+    if (!Array.isArray(groups) || !groups.every(g => g && typeof g.name === 'string' && isStringArray(g.members))) {
+        throw new Error('"groups" must be a list of { name, members } entries.');
+    }
+    if (!Array.isArray(aliases) || !aliases.every(a => a && typeof a.canonical === 'string' && isStringArray(a.spellings))) {
+        throw new Error('"aliases" must be a list of { canonical, spellings } entries.');
+    }
+    if (!isStringArray(visibleBrands)) {
+        throw new Error('"visibleBrands" must be a list of brand names.');
+    }
+
+    return {
+        groups: (groups as BrandGroup[]).map(({ name, members }) => ({ name, members })),
+        aliases: (aliases as BrandAlias[]).map(({ canonical, spellings }) => ({ canonical, spellings })),
+        visibleBrands,
+    };
+};
+
+export const loadBrandConfig = (tenantId: string, fallback: BrandConfig): BrandConfig => {
+    try {
+        const stored = localStorage.getItem(getStorageKey(tenantId));
+        return stored ? parseBrandConfig(JSON.parse(stored)) : fallback;
+    } catch (error) {
+        console.warn('Ignoring invalid stored brand configuration:', error);
+        return fallback;
+    }
+};
+
+export const saveBrandConfig = (tenantId: string, config: BrandConfig) => {
+    localStorage.setItem(getStorageKey(tenantId), JSON.stringify(config));
+};
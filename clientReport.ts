@@ -0,0 +1,426 @@
+import type { jsPDF } from 'jspdf';
+import type { CellHookData } from 'jspdf-autotable';
+import type { PivotedData, TableHeaders, TableRow, SovType, CategoryTaxonomy, SovMover, DisplayOptions } from './types';
+import { TableRowType } from './types';
+import { getTopMovers } from './dataService';
+import { ALL_SLOTS } from './pivotEngine';
+import { getBrandColor } from './brandColors';
+import { getPlatformColor } from './displayOptions';
+
+export interface ClientReportContext {
+    clientName: string;
+    primaryColor: string;
+    sovType: SovType;
+    taxonomy: CategoryTaxonomy;
+    fetchedAt: Date | null;
+    platformColors: DisplayOptions['platformColors'];
+    decimals: DisplayOptions['decimals'];
+}
+
+const MOVER_LIMIT = 10;
+// Brand columns per table page; months that don't fit continue on the next page.
+const MAX_VALUE_COLUMNS = 18;
+const TRENDS_PER_PAGE = 4;
+const LEGEND_LINE_HEIGHT = 3.5;
+
+const COLORS = {
+    text: '#1f2937',
+    muted: '#6b7280',
+    grid: '#e5e7eb',
+    headerFill: '#f9fafb',
+    platformTotal: '#f3f4f6',
+    grandTotal: '#eef2ff',
+    gain: '#15803d',
+    loss: '#b91c1c',
+};
+
+interface PlatformTable {
+    platform: string;
+    rows: TableRow[];
+    // Month groups small enough to fit one page width each.
+    monthPages: TableHeaders['months'][];
+}
+
+interface TrendChart {
+    title: string;
+    labels: string[];
+    series: { name: string; color: string; values: (number | null)[] }[];
+}
+
+// Everything the PDF and the deck show, worked out once from the pivot so both formats say the same thing.
+interface ReportContent {
+    subtitle: string;
+    periodRange: string;
+    slot: string;
+    tables: PlatformTable[];
+    trends: TrendChart[];
+    movers: SovMover[];
+}
+
+const formatSov = (value: number | undefined, decimals: number) => value === undefined ? '-' : `${value.toFixed(decimals)}%`;
+const formatChange = (change: number, decimals: number) => `${change > 0 ? '+' : ''}${change.toFixed(decimals)} pp`;
+
+const getRowFill = (row: TableRow, platformColors: ClientReportContext['platformColors']): string | undefined => {
+    if (row.rowType === TableRowType.GrandTotal) return COLORS.grandTotal;
+    if (row.rowType === TableRowType.PlatformTotal) return COLORS.platformTotal;
+    return getPlatformColor(platformColors, row.platform);
+};
+
+const paginateMonths = (headers: TableHeaders): TableHeaders['months'][] => {
+    const pages: TableHeaders['months'][] = [];
+    let current: TableHeaders['months'] = [];
+    let columns = 0;
+    headers.months.forEach(month => {
+        const width = month.slots.reduce((sum, slot) => sum + slot.brands.length, 0);
+        if (current.length > 0 && columns + width > MAX_VALUE_COLUMNS) {
+            pages.push(current);
+            current = [];
+            columns = 0;
+        }
+        current.push(month);
+        columns += width;
+    });
+    if (current.length > 0) pages.push(current);
+    return pages;
+};
+
+// trendData is the same pivot with every aggregate row and column, so the trends always chart the
+// impression-weighted platform totals, whichever totals the tables show.
+const buildReportContent = (pivotedData: PivotedData, trendData: PivotedData, context: ClientReportContext): ReportContent => {
+    const { headers, rows } = pivotedData;
+    const months = headers.months.map(m => m.name);
+    const slots = headers.months[0]?.slots.map(s => s.name) ?? [];
+    // Charts and movers use a single slot: the all-slots column when it is shown, otherwise the first slot.
+    const slot = slots.includes(ALL_SLOTS) ? ALL_SLOTS : slots[0] ?? '';
+    const monthPages = paginateMonths(headers);
+
+    const tables: PlatformTable[] = [];
+    rows.forEach(row => {
+        const last = tables[tables.length - 1];
+        if (last && last.platform === row.platform) {
+            last.rows.push(row);
+        } else {
+            tables.push({ platform: row.platform, rows: [row], monthPages });
+        }
+    });
+
+    const trends = trendData.rows.filter(row => row.rowType !== TableRowType.City).map(row => ({
+        title: row.platform,
+        labels: months,
+        series: headers.allBrands.map(brand => ({
+            name: brand,
+            color: getBrandColor(headers.allBrands, brand),
+            values: months.map(month => row.data[month]?.[slot]?.[brand]?.[context.sovType] ?? null),
+        })),
+    }));
+
+    return {
+        subtitle: `${context.sovType} · ${slot}`,
+        periodRange: months.length > 1 ? `${months[0]} to ${months[months.length - 1]}` : months[0] ?? '',
+        slot,
+        tables,
+        trends,
+        movers: getTopMovers(pivotedData, context.sovType, slot, MOVER_LIMIT),
+    };
+};
+
+interface HeaderCell {
+    content: string;
+    rowSpan?: number;
+    colSpan?: number;
+}
+
+const getTableHead = (months: TableHeaders['months']): HeaderCell[][] => [
+    [
+        { content: 'Platform', rowSpan: 3 },
+        { content: 'City', rowSpan: 3 },
+        ...months.map(month => ({ content: month.name, colSpan: month.slots.reduce((sum, s) => sum + s.brands.length, 0) })),
+    ],
+    months.flatMap(month => month.slots.map(slot => ({ content: slot.name, colSpan: slot.brands.length }))),
+    months.flatMap(month => month.slots.flatMap(slot => slot.brands.map(brand => ({ content: brand })))),
+];
+
+const getTableBody = (rows: TableRow[], months: TableHeaders['months'], { sovType, decimals }: ClientReportContext) =>
+    rows.map(row => [
+        row.platform,
+        row.city,
+        ...months.flatMap(month => month.slots.flatMap(slot =>
+            slot.brands.map(brand => formatSov(row.data[month.name]?.[slot.name]?.[brand]?.[sovType], decimals)))),
+    ]);
+
+const getAxisMax = (chart: TrendChart): number => {
+    const max = Math.max(0, ...chart.series.flatMap(s => s.values.filter((v): v is number => v !== null)));
+    return Math.min(100, Math.max(10, Math.ceil(max / 10) * 10));
+};
+
+// Splits the legend into lines that fit the width, so a long brand list wraps instead of running off the page.
+const getLegendLines = (doc: jsPDF, series: TrendChart['series'], width: number): TrendChart['series'][] => {
+    const lines: TrendChart['series'][] = [[]];
+    let lineWidth = 0;
+    series.forEach(entry => {
+        const entryWidth = doc.getTextWidth(entry.name) + 7;
+        if (lineWidth > 0 && lineWidth + entryWidth > width) {
+            lines.push([]);
+            lineWidth = 0;
+        }
+        lines[lines.length - 1].push(entry);
+        lineWidth += entryWidth;
+    });
+    return lines;
+};
+
+// A small line chart drawn with jsPDF primitives, laid out like LineChart in Charts.tsx.
+const drawTrendChart = (doc: jsPDF, chart: TrendChart, x: number, y: number, width: number, height: number) => {
+    doc.setFontSize(7);
+    const legendLines = getLegendLines(doc, chart.series, width - 16);
+    const padding = { top: 10, right: 4, bottom: 12 + legendLines.length * LEGEND_LINE_HEIGHT, left: 12 };
+    const plotWidth = width - padding.left - padding.right;
+    const plotHeight = height - padding.top - padding.bottom;
+    const axisMax = getAxisMax(chart);
+    const px = (index: number) => x + padding.left + (chart.labels.length > 1 ? (index / (chart.labels.length - 1)) * plotWidth : plotWidth / 2);
+    const py = (value: number) => y + padding.top + plotHeight - (value / axisMax) * plotHeight;
+
+    doc.setFontSize(10).setTextColor(COLORS.text).text(chart.title, x, y + 5);
+    doc.setFontSize(7).setTextColor(COLORS.muted).setLineWidth(0.1).setDrawColor(COLORS.grid);
+    for (let step = 0; step <= 4; step++) {
+        const value = (axisMax / 4) * step;
+        doc.line(x + padding.left, py(value), x + padding.left + plotWidth, py(value));
+        doc.text(`${value}%`, x + padding.left - 1, py(value) + 1, { align: 'right' });
+    }
+    // Label every nth period when they'd overlap, as day and week grains do over a few months.
+    const labelWidth = Math.max(0, ...chart.labels.map(label => doc.getTextWidth(label))) + 2;
+    const labelSpacing = chart.labels.length > 1 ? plotWidth / (chart.labels.length - 1) : plotWidth;
+    const labelStep = Math.max(1, Math.ceil(labelWidth / labelSpacing));
+    chart.labels.forEach((label, index) => {
+        if (index % labelStep === 0) doc.text(label, px(index), y + padding.top + plotHeight + 4, { align: 'center' });
+    });
+
+    doc.setLineWidth(0.5);
+    chart.series.forEach(series => {
+        doc.setDrawColor(series.color).setFillColor(series.color);
+        series.values.forEach((value, index) => {
+            if (value === null) return;
+            const previous = series.values[index - 1];
+            if (index > 0 && previous !== null && previous !== undefined) {
+                doc.line(px(index - 1), py(previous), px(index), py(value));
+            }
+            doc.circle(px(index), py(value), 0.6, 'F');
+        });
+    });
+
+    legendLines.forEach((line, lineIndex) => {
+        let legendX = x + padding.left;
+        const legendY = y + height - 3 - (legendLines.length - 1 - lineIndex) * LEGEND_LINE_HEIGHT;
+        line.forEach(series => {
+            doc.setFillColor(series.color).rect(legendX, legendY - 2, 2, 2, 'F');
+            doc.setTextColor(COLORS.muted).text(series.name, legendX + 3, legendY);
+            legendX += doc.getTextWidth(series.name) + 7;
+        });
+    });
+};
+
+const addPageTitle = (doc: jsPDF, title: string, subtitle?: string) => {
+    doc.setFontSize(16).setTextColor(COLORS.text).text(title, 14, 16);
+    if (subtitle) doc.setFontSize(9).setTextColor(COLORS.muted).text(subtitle, 14, 22);
+};
+
+export const downloadPdfReport = async (pivotedData: PivotedData, trendData: PivotedData, context: ClientReportContext, fileName: string) => {
+    const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+    const content = buildReportContent(pivotedData, trendData, context);
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    // Cover
+    doc.setFillColor(context.primaryColor).rect(0, 0, pageWidth, 70, 'F');
+    doc.setTextColor('#ffffff').setFontSize(28).text(context.clientName, 20, 40);
+    doc.setFontSize(14).text('Share of Voice Report', 20, 54);
+    doc.setTextColor(COLORS.text).setFontSize(14).text(content.periodRange, 20, 90);
+    doc.setFontSize(11).setTextColor(COLORS.muted).text(content.subtitle, 20, 98);
+    doc.text(`Generated ${new Date().toLocaleString()}`, 20, 112);
+    if (context.fetchedAt) doc.text(`Data loaded ${context.fetchedAt.toLocaleString()}`, 20, 119);
+
+    // Pivot tables, one platform at a time.
+    content.tables.forEach(table => {
+        table.monthPages.forEach((months, pageIndex) => {
+            doc.addPage();
+            const continued = table.monthPages.length > 1 ? ` (${pageIndex + 1}/${table.monthPages.length})` : '';
+            addPageTitle(doc, `${table.platform}${continued}`, `${context.sovType} by city`);
+            autoTable(doc, {
+                startY: 28,
+                head: getTableHead(months),
+                body: getTableBody(table.rows, months, context),
+                theme: 'grid',
+                styles: { fontSize: 7, halign: 'center', cellPadding: 1.2, lineColor: COLORS.grid, textColor: COLORS.text },
+                headStyles: { fillColor: COLORS.headerFill, textColor: COLORS.text, fontStyle: 'bold' },
+                columnStyles: { 0: { halign: 'left', cellWidth: 24 }, 1: { halign: 'left', cellWidth: 28 } },
+                didParseCell: (data: CellHookData) => {
+                    if (data.section !== 'body') return;
+                    const row = table.rows[data.row.index];
+                    const fill = getRowFill(row, context.platformColors);
+                    if (fill) data.cell.styles.fillColor = fill;
+                    if (row.rowType !== TableRowType.City) data.cell.styles.fontStyle = 'bold';
+                },
+            });
+        });
+    });
+
+    // Trend charts in a 2x2 grid.
+    const chartWidth = (pageWidth - 28 - 10) / 2;
+    const chartHeight = (pageHeight - 30 - 20) / 2;
+    for (let start = 0; start < content.trends.length; start += TRENDS_PER_PAGE) {
+        doc.addPage();
+        addPageTitle(doc, `${context.sovType} Trends`, content.slot);
+        content.trends.slice(start, start + TRENDS_PER_PAGE).forEach((chart, index) => {
+            const x = 14 + (index % 2) * (chartWidth + 10);
+            const y = 28 + Math.floor(index / 2) * (chartHeight + 6);
+            drawTrendChart(doc, chart, x, y, chartWidth, chartHeight);
+        });
+    }
+
+    if (content.movers.length > 0) {
+        const { previousPeriod, period } = content.movers[0];
+        doc.addPage();
+        addPageTitle(doc, 'Top Movers', `${context.sovType} · ${content.slot} · ${previousPeriod} to ${period}`);
+        autoTable(doc, {
+            startY: 28,
+            head: [['Platform', 'City', 'Brand', previousPeriod, period, 'Change']],
+            body: content.movers.map(m => [m.platform, m.city, m.brand, formatSov(m.previous, context.decimals), formatSov(m.current, context.decimals), formatChange(m.change, context.decimals)]),
+            theme: 'striped',
+            styles: { fontSize: 9, textColor: COLORS.text },
+            headStyles: { fillColor: context.primaryColor },
+            didParseCell: (data: CellHookData) => {
+                if (data.section === 'body' && data.column.index === 5) {
+                    data.cell.styles.textColor = content.movers[data.row.index].change > 0 ? COLORS.gain : COLORS.loss;
+                }
+            },
+        });
+    }
+
+    doc.addPage();
+    addPageTitle(doc, 'Category Definitions', `Taxonomy v${context.taxonomy.version}; keywords not listed are counted as ${context.taxonomy.fallbackCategory}.`);
+    autoTable(doc, {
+        startY: 28,
+        head: [['Category', 'Keywords']],
+        body: context.taxonomy.rules.map(rule => [rule.category, rule.keywords.join(', ')]),
+        theme: 'striped',
+        styles: { fontSize: 8, textColor: COLORS.text },
+        headStyles: { fillColor: context.primaryColor },
+        columnStyles: { 0: { cellWidth: 40, fontStyle: 'bold' } },
+    });
+
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 2; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.setFontSize(8).setTextColor(COLORS.muted);
+        doc.text(`${context.clientName} · SOV Report`, 14, pageHeight - 6);
+        doc.text(`${page} / ${pageCount}`, pageWidth - 14, pageHeight - 6, { align: 'right' });
+    }
+
+    doc.save(fileName);
+};
+
+// pptxgenjs takes colours without the leading '#'.
+const toPptxColor = (color: string) => color.replace('#', '');
+
+export const downloadPptxReport = async (pivotedData: PivotedData, trendData: PivotedData, context: ClientReportContext, fileName: string) => {
+    const { default: PptxGenJS } = await import('pptxgenjs');
+    const content = buildReportContent(pivotedData, trendData, context);
+    const pptx = new PptxGenJS();
+    pptx.layout = 'LAYOUT_WIDE';
+    pptx.title = `${context.clientName} SOV Report`;
+
+    const titleOptions = { x: 0.4, y: 0.25, w: 12.5, h: 0.5, fontSize: 22, bold: true, color: toPptxColor(COLORS.text) };
+    const subtitleOptions = { x: 0.4, y: 0.7, w: 12.5, h: 0.3, fontSize: 11, color: toPptxColor(COLORS.muted) };
+    const headerCell = (text: string, options = {}) => ({
+        text,
+        options: { bold: true, fill: { color: toPptxColor(COLORS.headerFill) }, align: 'center' as const, ...options },
+    });
+
+    const cover = pptx.addSlide();
+    cover.background = { color: toPptxColor(context.primaryColor) };
+    cover.addText(context.clientName, { x: 0.8, y: 2.2, w: 11.5, h: 1, fontSize: 40, bold: true, color: 'FFFFFF' });
+    cover.addText('Share of Voice Report', { x: 0.8, y: 3.2, w: 11.5, h: 0.6, fontSize: 22, color: 'FFFFFF' });
+    cover.addText(`${content.periodRange}\n${content.subtitle}\nGenerated ${new Date().toLocaleDateString()}`, {
+        x: 0.8, y: 4.3, w: 11.5, h: 1.4, fontSize: 14, color: 'FFFFFF',
+    });
+
+    content.tables.forEach(table => {
+        table.monthPages.forEach(months => {
+            const slide = pptx.addSlide();
+            slide.addText(table.platform, titleOptions);
+            slide.addText(`${context.sovType} by city`, subtitleOptions);
+            const head = getTableHead(months).map(cells =>
+                cells.map(cell => headerCell(cell.content, { rowspan: cell.rowSpan, colspan: cell.colSpan })));
+            const body = getTableBody(table.rows, months, context).map((cells, rowIndex) => {
+                const row = table.rows[rowIndex];
+                const fill = getRowFill(row, context.platformColors);
+                return cells.map((text, column) => ({
+                    text,
+                    options: {
+                        align: column < 2 ? 'left' as const : 'center' as const,
+                        bold: row.rowType !== TableRowType.City,
+                        fill: fill ? { color: toPptxColor(fill) } : undefined,
+                    },
+                }));
+            });
+            slide.addTable([...head, ...body], {
+                x: 0.4, y: 1.1, w: 12.5,
+                fontSize: 8,
+                color: toPptxColor(COLORS.text),
+                border: { type: 'solid', pt: 0.5, color: toPptxColor(COLORS.grid) },
+                autoPage: true,
+                autoPageRepeatHeader: true,
+                autoPageHeaderRows: 3,
+            });
+        });
+    });
+
+    content.trends.forEach(chart => {
+        const slide = pptx.addSlide();
+        slide.addText(`${chart.title} · ${context.sovType} Trend`, titleOptions);
+        slide.addText(content.slot, subtitleOptions);
+        slide.addChart(pptx.ChartType.line, chart.series.map(s => ({ name: s.name, labels: chart.labels, values: s.values })), {
+            x: 0.4, y: 1.1, w: 12.5, h: 6,
+            chartColors: chart.series.map(s => toPptxColor(s.color)),
+            showLegend: true,
+            legendPos: 'b',
+            lineSize: 2,
+            lineDataSymbol: 'circle',
+            displayBlanksAs: 'gap',
+            valAxisMaxVal: getAxisMax(chart),
+            valAxisLabelFormatCode: '0"%"',
+        });
+    });
+
+    if (content.movers.length > 0) {
+        const { previousPeriod, period } = content.movers[0];
+        const slide = pptx.addSlide();
+        slide.addText('Top Movers', titleOptions);
+        slide.addText(`${context.sovType} · ${content.slot} · ${previousPeriod} to ${period}`, subtitleOptions);
+        slide.addTable([
+            ['Platform', 'City', 'Brand', previousPeriod, period, 'Change'].map(text => headerCell(text)),
+            ...content.movers.map(m => [
+                { text: m.platform }, { text: m.city }, { text: m.brand },
+                { text: formatSov(m.previous, context.decimals) }, { text: formatSov(m.current, context.decimals) },
+                { text: formatChange(m.change, context.decimals), options: { bold: true, color: toPptxColor(m.change > 0 ? COLORS.gain : COLORS.loss) } },
+            ]),
+        ], { x: 0.4, y: 1.1, w: 12.5, fontSize: 11, border: { type: 'solid', pt: 0.5, color: toPptxColor(COLORS.grid) } });
+    }
+
+    const definitions = pptx.addSlide();
+    definitions.addText('Category Definitions', titleOptions);
+    definitions.addText(`Taxonomy v${context.taxonomy.version}; keywords not listed are counted as ${context.taxonomy.fallbackCategory}.`, subtitleOptions);
+    definitions.addTable([
+        [headerCell('Category'), headerCell('Keywords')],
+        ...context.taxonomy.rules.map(rule => [{ text: rule.category, options: { bold: true } }, { text: rule.keywords.join(', ') }]),
+    ], {
+        x: 0.4, y: 1.1, w: 12.5, colW: [2.5, 10],
+        fontSize: 9,
+        border: { type: 'solid', pt: 0.5, color: toPptxColor(COLORS.grid) },
+        autoPage: true,
+        autoPageRepeatHeader: true,
+    });
+
+    await pptx.writeFile({ fileName });
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { DataIssueType } from './types';
+import { validateRows } from './dataQuality';
+import { rawRow } from './testFixtures';
+
+describe('validateRows', () => {
+    it('accepts a row per keyword in the same cell but flags repeated keywords', () => {
+        const report = validateRows([
+            rawRow({ KEYWORD: 'pav', total: 10, ad: 4, organic: 6 }),
+            rawRow({ KEYWORD: 'milk pav', total: 10, ad: 4, organic: 6 }),
+            rawRow({ KEYWORD: ' Milk Pav ', total: 5, ad: 0, organic: 5 }),
+        ]);
+
+        expect(report.issues.map(issue => [issue.type, issue.rowNumber])).toEqual([[DataIssueType.DuplicateKey, 4]]);
+        expect(report.invalidRows).toBe(1);
+    });
+
+    it('accepts daily rows in the same month, reading differently written dates as one day', () => {
+        const report = validateRows([
+            rawRow({ CRAWL_DATE: '2025-06-01', total: 10, organic: 10 }),
+            rawRow({ CRAWL_DATE: '2025-06-02', total: 10, organic: 10 }),
+            rawRow({ CRAWL_DATE: '02/06/2025', total: 10, organic: 10 }),
+        ]);
+
+        expect(report.issues.map(issue => [issue.type, issue.rowNumber])).toEqual([[DataIssueType.DuplicateKey, 4]]);
+    });
+});
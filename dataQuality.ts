@@ -0,0 +1,93 @@
+import type { RawDataRow, DataIssue, DataQualityReport } from './types';
+import { DataIssueType } from './types';
+import { getMonthAndSlot, isKnownMonth } from './pivotEngine';
+import { parseCrawlDate } from './timeGrain';
+
+const REQUIRED_FIELDS: (keyof RawDataRow)[] = [
+    'GC_PLATFORM',
+    'CITY',
+    'CATEGORY',
+    'BRAND',
+    'TOTAL_IMPRESSIONS',
+    'AD_IMPRESSIONS',
+    'ORGANIC_IMPRESSIONS',
+];
+
+const IMPRESSION_FIELDS: (keyof RawDataRow)[] = ['TOTAL_IMPRESSIONS', 'AD_IMPRESSIONS', 'ORGANIC_IMPRESSIONS'];
+
+// pivotSov reads impressions with parseInt, so "1,200" or "12.5" would silently become 1 or 12.
+const isWholeNumber = (value: string): boolean => /^\d+$/.test(value.trim());
+
+// Classifies every problem pivotSov would otherwise drop or misread, so bad rows are visible before a report goes out.
+export const validateRows = (rawData: RawDataRow[]): DataQualityReport => {
+    const issues: DataIssue[] = [];
+    const invalidRows = new Set<number>();
+    const firstRowByKey = new Map<string, number>();
+
+    rawData.forEach((row, index) => {
+        const rowNumber = index + 2;
+        const addIssue = (type: DataIssueType, detail: string) => {
+            issues.push({ type, rowNumber, detail, row });
+            invalidRows.add(rowNumber);
+        };
+
+        // CATEGORY can be left empty when the row has a KEYWORD for the taxonomy to categorise.
+        REQUIRED_FIELDS
+            .filter(field => !row[field]?.trim() && !(field === 'CATEGORY' && row.KEYWORD?.trim()))
+            .forEach(field => addIssue(DataIssueType.MissingField, `${field} is empty`));
+
+        const monthAndSlot = getMonthAndSlot(row);
+        if (!monthAndSlot) {
+            addIssue(DataIssueType.MissingField, 'CRAWL_MONTH and SLOT (or CRAWL_MONTH_SLOT) are empty');
+        } else {
+            if (!isKnownMonth(monthAndSlot.month)) {
+                addIssue(DataIssueType.UnparsableMonth, `"${row.CRAWL_MONTH || row.CRAWL_MONTH_SLOT}" is not a month like Jun-25`);
+            }
+            if (!monthAndSlot.slot) {
+                addIssue(DataIssueType.UnknownSlot, `No slot name in "${row.SLOT || row.CRAWL_MONTH_SLOT}"`);
+            }
+        }
+
+        const crawlDate = row.CRAWL_DATE?.trim() ? parseCrawlDate(row.CRAWL_DATE) : null;
+        if (row.CRAWL_DATE?.trim() && !crawlDate) {
+            addIssue(DataIssueType.UnparsableDate, `"${row.CRAWL_DATE}" is not a date like 2025-06-14`);
+        }
+
+        const nonNumeric = IMPRESSION_FIELDS.filter(field => row[field]?.trim() && !isWholeNumber(row[field]!));
+        nonNumeric.forEach(field => addIssue(DataIssueType.NonNumericImpressions, `${field} is "${row[field]}"`));
+
+        if (IMPRESSION_FIELDS.every(field => row[field] && isWholeNumber(row[field]!))) {
+            const total = parseInt(row.TOTAL_IMPRESSIONS, 10);
+            const ad = parseInt(row.AD_IMPRESSIONS, 10);
+            const organic = parseInt(row.ORGANIC_IMPRESSIONS, 10);
+            if (ad + organic !== total) {
+                addIssue(DataIssueType.ImpressionMismatch, `${ad} + ${organic} = ${ad + organic}, but TOTAL is ${total}`);
+            }
+        }
+
+        // Brands are compared as spelled in the data; clubbing several spellings into one group is expected.
+        // Keyword-level and daily data have a row per keyword or crawl date in each cell, so both are part of the key.
+        if (monthAndSlot) {
+            const key = [row.GC_PLATFORM, row.CITY, row.CATEGORY, monthAndSlot.month, monthAndSlot.slot, row.BRAND, row.KEYWORD, crawlDate?.toDateString()]
+                .map(value => value?.trim().toLowerCase() ?? '')
+                .join('|');
+            const firstRow = firstRowByKey.get(key);
+            if (firstRow === undefined) {
+                firstRowByKey.set(key, rowNumber);
+            } else {
+                addIssue(DataIssueType.DuplicateKey, `Same platform, city, category, month, slot, brand, keyword and crawl date as row ${firstRow}`);
+            }
+        }
+    });
+
+    return { totalRows: rawData.length, invalidRows: invalidRows.size, issues };
+};
+
+// One line per issue, followed by the original columns so the row can be found and fixed at the source.
+export const getIssueCsvRows = (report: DataQualityReport): object[] =>
+    report.issues.map(issue => ({
+        ROW: issue.rowNumber,
+        ISSUE: issue.type,
+        DETAIL: issue.detail,
+        ...issue.row,
+    }));
@@ -1,319 +1,293 @@
 
-import type { RawDataRow, PivotedData, TableHeaders, TableRow, SovType, TableRowData } from './types';
-import { SovType as SovTypeEnum } from './types';
+import type { RawDataRow, PivotedData, TableHeaders, TableRow, SovType, BrandConfig, DeltaOptions, AggregateOptions, DashboardFilters, FilterOptions, DataSummary, CategoryTaxonomy, SovCell, KeywordBreakdown, SlotConfig, TimeOptions, SovMover, ExportScope, ExportShape, ExportFormat } from './types';
+import { SovType as SovTypeEnum, TableRowType, ExportScope as ExportScopeEnum, ExportShape as ExportShapeEnum, ExportFormat as ExportFormatEnum } from './types';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
+import { createCategoryResolver } from './taxonomy';
+import { createSlotResolver } from './slotConfig';
+import { createBrandResolver } from './brandConfig';
+import { validateRows } from './dataQuality';
+import { DEFAULT_TIME_OPTIONS, parseCrawlDate, comparePeriods } from './timeGrain';
+import { ALL_PLATFORMS, ALL_CITIES, ALL_SLOTS, getMonthAndSlot, getMonthToDateCutoff, cleanRows, matches, applyRowFilters, aggregateImpressions, getSovValues } from './pivotEngine';
 
-// Use the live Google Sheet URL for fetching data.
-const GOOGLE_SHEET_URL = 'https://docs.google.com/spreadsheets/d/e/2PACX-1vRGeb21fuLgx3bUPZr2IXBocdbR4Co0S6GcKlb0GDk5aIYPt-e55C5307txc7m3-f_lgVqQTZMITArb/pub?gid=0&single=true&output=csv';
-
-const BRANDS_TO_CLUB: { [key: string]: string } = {
-  "Modern": "BIN",
-  "Baker's Loaf": "BIN",
-  "Harvest Gold": "BIN"
+// Every slot name in the data, whether or not the slot configuration includes it.
+export const getSlotNames = (rawData: RawDataRow[]): string[] => {
+    const names = rawData.map(row => getMonthAndSlot(row)?.slot ?? '');
+    return [...new Set(names.filter(Boolean))].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
 };
 
-// Define the specific list of brands to display in the dashboard, in the desired order.
-const VISIBLE_BRANDS = [
-    'BIN',
-    'Britannia',
-    'Bonn',
-    'English Oven',
-    'The Health Factory',
-    'Protein Chef',
-    'The Baker\'s Dozen'
-];
-
-const parseImpressions = (value: string): number => {
-    const num = parseInt(value, 10);
-    return isNaN(num) ? 0 : num;
-};
+export const hasCrawlDates = (rawData: RawDataRow[]): boolean =>
+    rawData.some(row => row.CRAWL_DATE && parseCrawlDate(row.CRAWL_DATE));
 
-const monthOrder = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-const parseMonthYearToDate = (monthStr: string): Date => {
-    const [monthName, yearStr] = monthStr.split("'");
-    const monthIndex = monthOrder.findIndex(m => monthName.startsWith(m));
-    const year = parseInt(`20${yearStr}`, 10);
-    if (monthIndex === -1 || isNaN(year)) {
-        return new Date(0); 
-    }
-    return new Date(year, monthIndex, 1);
+export const getCategories = (rawData: RawDataRow[], taxonomy: CategoryTaxonomy): string[] => {
+    const resolveCategory = createCategoryResolver(taxonomy);
+    const categories = rawData.map(row => row.KEYWORD?.trim() ? resolveCategory(row.KEYWORD) : row.CATEGORY);
+    return [...new Set(categories.filter(Boolean))].sort();
 };
 
-
-const processData = (
+export const getFilterOptions = (
     rawData: RawDataRow[],
-    selectedCategories: string[]
-): PivotedData => {
-    // 1. Filter out malformed rows, then filter by category and club brands
-    const cleanedData = rawData
-    .filter(row => row && ((row.CRAWL_MONTH && row.SLOT) || row.CRAWL_MONTH_SLOT))
-    .map(row => {
-        const brand = BRANDS_TO_CLUB[row.BRAND] || row.BRAND;
-        let month: string;
-        let slot: string;
+    brandConfig: BrandConfig,
+    taxonomy: CategoryTaxonomy,
+    slotConfig: SlotConfig,
+    timeOptions: TimeOptions = DEFAULT_TIME_OPTIONS
+): FilterOptions => {
+    const cleanedData = cleanRows(rawData, brandConfig, taxonomy, slotConfig, timeOptions);
+    const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+    const brandsInData = new Set(cleanedData.map(r => r.brand));
 
-        if (row.CRAWL_MONTH && row.SLOT) {
-            month = row.CRAWL_MONTH.replace('-', "'");
-            const slotName = row.SLOT.split(/_|\s/)[0]; // Handles "Evening_Slot" and "Evening Slot"
-            slot = `${slotName} SOV`;
-        } else if (row.CRAWL_MONTH_SLOT) {
-            const [monthStr, ...slotParts] = row.CRAWL_MONTH_SLOT.split('_');
-            month = monthStr ? monthStr.replace('-', "'") : 'Unknown';
-            const slotName = slotParts.length > 0 ? slotParts[0] : 'Unknown';
-            slot = `${slotName} SOV`;
-        } else {
-            month = 'Unknown';
-            slot = 'Unknown SOV';
-        }
+    return {
+        categories: unique(cleanedData.map(r => r.category)).sort(),
+        platforms: unique(cleanedData.map(r => r.platform)).sort(),
+        cities: unique(cleanedData.map(r => r.city)).sort(),
+        months: unique(cleanedData.map(r => r.period)).sort(comparePeriods),
+        slots: unique(cleanedData.map(r => r.slot)).sort(createSlotResolver(slotConfig).compareLabels),
+        brands: brandConfig.visibleBrands.filter(brand => brandsInData.has(brand)),
+    };
+};
 
-        return {
-            platform: row.GC_PLATFORM,
-            city: row.CITY,
-            category: row.CATEGORY,
-            month,
-            slot,
-            brand,
-            total: parseImpressions(row.TOTAL_IMPRESSIONS),
-            ad: parseImpressions(row.AD_IMPRESSIONS),
-            organic: parseImpressions(row.ORGANIC_IMPRESSIONS)
-        };
-    }).filter(row => selectedCategories.includes(row.category));
-    
-    if (cleanedData.length === 0) {
-        return { headers: { months: [], allBrands: [] }, rows: [] };
-    }
+export const hasKeywords = (rawData: RawDataRow[]): boolean => rawData.some(row => row.KEYWORD?.trim());
 
-    // 2. Aggregate impressions by group. This uses ALL brands to ensure accurate total calculations for SOV.
-    type AggregatedImpressions = { [brand: string]: { total: number; ad: number; organic: number } };
-    const groupImpressions: { [key: string]: AggregatedImpressions } = {};
-    const groupTotals: { [key: string]: { total: number; ad: number; organic: number } } = {};
+export const summariseRows = (rawData: RawDataRow[]): DataSummary => ({
+    slotNames: getSlotNames(rawData),
+    hasCrawlDates: hasCrawlDates(rawData),
+    undatedRows: rawData.filter(row => !(row.CRAWL_DATE && parseCrawlDate(row.CRAWL_DATE))).length,
+    monthToDateCutoff: getMonthToDateCutoff(rawData),
+    hasKeywords: hasKeywords(rawData),
+    dataQuality: validateRows(rawData),
+});
 
-    cleanedData.forEach(row => {
-        const key = `${row.platform}|${row.city}|${row.month}|${row.slot}`;
-        
-        if (!groupImpressions[key]) groupImpressions[key] = {};
-        if (!groupImpressions[key][row.brand]) groupImpressions[key][row.brand] = { total: 0, ad: 0, organic: 0 };
-        
-        if (!groupTotals[key]) groupTotals[key] = { total: 0, ad: 0, organic: 0 };
-        
-        groupImpressions[key][row.brand].total += row.total;
-        groupImpressions[key][row.brand].ad += row.ad;
-        groupImpressions[key][row.brand].organic += row.organic;
-        
-        groupTotals[key].total += row.total;
-        groupTotals[key].ad += row.ad;
-        groupTotals[key].organic += row.organic;
+// Both the spellings found in the data and the names they resolve to, for editing brand settings.
+export const getKnownBrands = (rawData: RawDataRow[], brandConfig: BrandConfig): string[] => {
+    const resolveBrand = createBrandResolver(brandConfig);
+    const names = new Set<string>();
+    rawData.forEach(row => {
+        if (!row.BRAND) return;
+        names.add(row.BRAND);
+        names.add(resolveBrand(row.BRAND));
     });
+    return [...names].sort();
+};
 
-    // 3. Get unique dimensions and filter brands for display
-    const uniqueMonths = [...new Set(cleanedData.map(r => r.month))]
-        .sort((a, b) => parseMonthYearToDate(a).getTime() - parseMonthYearToDate(b).getTime());
-        
-    const desiredSlotOrder = ['Morning SOV', 'Evening SOV'];
-    const uniqueSlots = [...new Set(cleanedData.map(r => r.slot))]
-      .filter(slot => desiredSlotOrder.includes(slot))
-      .sort((a, b) => desiredSlotOrder.indexOf(a) - desiredSlotOrder.indexOf(b));
-      
-    // Filter the brands to only those specified in VISIBLE_BRANDS that are present in the current data.
-    // The order of VISIBLE_BRANDS is preserved.
-    const allBrandsInData = new Set(cleanedData.map(r => r.brand));
-    const uniqueBrands = VISIBLE_BRANDS.filter(brand => allBrandsInData.has(brand));
-    
-    const headers: TableHeaders = {
-        months: uniqueMonths.map(month => ({
-            name: month,
-            slots: uniqueSlots.map(slot => ({
-                name: slot,
-                brands: uniqueBrands
-            }))
-        })),
-        allBrands: uniqueBrands
-    };
-
-    // 4. Pre-calculate all SOV data for the visible brands
-    const allSovData: { [key: string]: TableRowData } = {};
-    const platformCityPairs = [...new Set(cleanedData.map(r => `${r.platform}|${r.city}`))].map(pc => {
-        const [platform, city] = pc.split('|');
-        return { platform, city };
-    });
+const NO_KEYWORD = '(no keyword)';
 
-    platformCityPairs.forEach(({ platform, city }) => {
-        const key = `${platform}|${city}`;
-        allSovData[key] = {};
-        uniqueMonths.forEach(month => {
-            allSovData[key][month] = {};
-            uniqueSlots.forEach(slot => {
-                allSovData[key][month][slot] = {};
-                const impressionKey = `${platform}|${city}|${month}|${slot}`;
-                const impressions = groupImpressions[impressionKey] || {};
-                const totals = groupTotals[impressionKey] || { total: 0, ad: 0, organic: 0 };
+// Splits one SovTable cell into the keywords behind it. Uses the same rows and denominators as pivotSov,
+// so the contributions add up to the value shown in the cell.
+export const getKeywordBreakdown = (
+    rawData: RawDataRow[],
+    filters: DashboardFilters,
+    brandConfig: BrandConfig,
+    taxonomy: CategoryTaxonomy,
+    slotConfig: SlotConfig,
+    timeOptions: TimeOptions,
+    cell: SovCell,
+    sovType: SovType
+): KeywordBreakdown => {
+    const field = sovType === SovTypeEnum.Ad ? 'ad' : sovType === SovTypeEnum.Organic ? 'organic' : 'total';
+    const cellRows = applyRowFilters(cleanRows(rawData, brandConfig, taxonomy, slotConfig, timeOptions), filters).filter(row =>
+        (cell.platform === ALL_PLATFORMS || row.platform === cell.platform) &&
+        (cell.city === ALL_CITIES || row.city === cell.city) &&
+        row.period === cell.month &&
+        (cell.slot === ALL_SLOTS || row.slot === cell.slot)
+    );
 
-                uniqueBrands.forEach(brand => {
-                    const brandImpressions = impressions[brand] || { total: 0, ad: 0, organic: 0 };
-                    // The 'totals' denominator includes all brands, ensuring the SOV is accurate.
-                    allSovData[key][month][slot][brand] = {
-                        [SovTypeEnum.Overall]: totals.total > 0 ? (brandImpressions.total / totals.total) * 100 : 0,
-                        [SovTypeEnum.Ad]: totals.ad > 0 ? (brandImpressions.ad / totals.ad) * 100 : 0,
-                        [SovTypeEnum.Organic]: totals.organic > 0 ? (brandImpressions.organic / totals.organic) * 100 : 0,
-                    };
-                });
-            });
-        });
+    const byKeyword = new Map<string, { category: string; brandImpressions: number; totalImpressions: number }>();
+    let cellTotal = 0;
+    cellRows.forEach(row => {
+        const keyword = row.keyword || NO_KEYWORD;
+        const entry = byKeyword.get(keyword) ?? { category: row.category, brandImpressions: 0, totalImpressions: 0 };
+        entry.totalImpressions += row[field];
+        if (row.brand === cell.brand) entry.brandImpressions += row[field];
+        byKeyword.set(keyword, entry);
+        cellTotal += row[field];
     });
 
-    // 5. Sort cities based on BIN SOV for the latest month
-    const latestMonth = uniqueMonths.length > 0 ? uniqueMonths[uniqueMonths.length - 1] : null;
-    const uniquePlatforms = [...new Set(platformCityPairs.map(p => p.platform))].sort();
-    const sortedPlatformCityPairs: { platform: string, city: string }[] = [];
+    const keywords = [...byKeyword.entries()]
+        .map(([keyword, entry]) => ({
+            keyword,
+            ...entry,
+            sov: entry.totalImpressions > 0 ? (entry.brandImpressions / entry.totalImpressions) * 100 : 0,
+            contribution: cellTotal > 0 ? (entry.brandImpressions / cellTotal) * 100 : 0,
+        }))
+        .sort((a, b) => b.contribution - a.contribution || b.totalImpressions - a.totalImpressions);
 
-    uniquePlatforms.forEach(platform => {
-        const citiesForPlatform = platformCityPairs.filter(p => p.platform === platform);
+    return {
+        cell,
+        sovType,
+        cellSov: keywords.reduce((sum, k) => sum + k.contribution, 0),
+        keywords,
+    };
+};
 
-        citiesForPlatform.sort((a, b) => {
-            if (!latestMonth || !uniqueBrands.includes('BIN')) {
-                return a.city.localeCompare(b.city); // Fallback to alphabetical sort
-            }
+const roundSov = (value: number) => Math.round(value * 10000) / 10000;
 
-            const getBinSov = (cityData: { platform: string, city: string }): number => {
-                let totalBinSov = 0;
-                const citySovData = allSovData[`${cityData.platform}|${cityData.city}`];
-                if (citySovData && citySovData[latestMonth]) {
-                    uniqueSlots.forEach(slot => {
-                        const binData = citySovData[latestMonth]?.[slot]?.['BIN'];
-                        if (binData) {
-                            totalBinSov += binData[SovTypeEnum.Overall];
-                        }
-                    });
-                }
-                return totalBinSov;
-            };
-            // Sort descending by SOV
-            return getBinSov(b) - getBinSov(a);
-        });
-        sortedPlatformCityPairs.push(...citiesForPlatform);
-    });
+// Rows for the data export dialog. The filtered scope applies the dashboard filters, including the brand
+// filter; aggregated rows still carry the all-brand totals used as SOV denominators, so the numbers can be re-checked.
+export const getExportRows = (
+    rawData: RawDataRow[],
+    filters: DashboardFilters,
+    brandConfig: BrandConfig,
+    taxonomy: CategoryTaxonomy,
+    slotConfig: SlotConfig,
+    aggregateOptions: AggregateOptions,
+    timeOptions: TimeOptions,
+    scope: ExportScope,
+    shape: ExportShape
+): object[] => {
+    if (shape === ExportShapeEnum.Raw && scope === ExportScopeEnum.Full) return rawData;
 
-    // 6. Build rows from sorted data
-    let lastPlatform = "";
-    const rows: TableRow[] = sortedPlatformCityPairs.map(({ platform, city }) => {
-        const rowData = allSovData[`${platform}|${city}`];
-        const isFirstInPlatform = platform !== lastPlatform;
-        lastPlatform = platform;
+    const cleanedData = cleanRows(rawData, brandConfig, taxonomy, slotConfig, timeOptions);
+    const rows = scope === ExportScopeEnum.Filtered ? applyRowFilters(cleanedData, filters) : cleanedData;
+    const includeBrand = (brand: string) => scope === ExportScopeEnum.Full || matches(filters.brands, brand);
 
-        return {
-            platform,
-            city,
-            isFirstInPlatform,
-            data: rowData
-        };
-    });
+    if (shape === ExportShapeEnum.Raw) {
+        return rows.filter(row => includeBrand(row.brand)).map(row => row.source);
+    }
+
+    if (shape === ExportShapeEnum.Cleaned) {
+        return rows.filter(row => includeBrand(row.brand)).map(row => ({
+            PLATFORM: row.platform,
+            CITY: row.city,
+            CATEGORY: row.category,
+            KEYWORD: row.keyword,
+            PERIOD: row.period,
+            SLOT: row.slot,
+            BRAND: row.brand,
+            RAW_BRAND: row.source.BRAND,
+            TOTAL_IMPRESSIONS: row.total,
+            AD_IMPRESSIONS: row.ad,
+            ORGANIC_IMPRESSIONS: row.organic,
+        }));
+    }
 
-    return { headers, rows };
+    const { groupImpressions, groupTotals } = aggregateImpressions(rows, aggregateOptions);
+    return Object.entries(groupImpressions)
+        .map(([key, impressionsByBrand]) => ({ key: key.split('|'), impressionsByBrand, totals: groupTotals[key] }))
+        .sort((a, b) => a.key[0].localeCompare(b.key[0]) || a.key[1].localeCompare(b.key[1]) || comparePeriods(a.key[2], b.key[2]))
+        .flatMap(({ key: [platform, city, period, slot], impressionsByBrand, totals }) =>
+            Object.entries(impressionsByBrand)
+                .filter(([brand]) => includeBrand(brand))
+                .map(([brand, impressions]) => {
+                    const sov = getSovValues(impressions, totals);
+                    return {
+                        PLATFORM: platform,
+                        CITY: city,
+                        PERIOD: period,
+                        SLOT: slot,
+                        BRAND: brand,
+                        BRAND_TOTAL_IMPRESSIONS: impressions.total,
+                        BRAND_AD_IMPRESSIONS: impressions.ad,
+                        BRAND_ORGANIC_IMPRESSIONS: impressions.organic,
+                        ALL_TOTAL_IMPRESSIONS: totals.total,
+                        ALL_AD_IMPRESSIONS: totals.ad,
+                        ALL_ORGANIC_IMPRESSIONS: totals.organic,
+                        OVERALL_SOV: roundSov(sov[SovTypeEnum.Overall]),
+                        AD_SOV: roundSov(sov[SovTypeEnum.Ad]),
+                        ORGANIC_SOV: roundSov(sov[SovTypeEnum.Organic]),
+                    };
+                })
+        );
 };
 
+export const DEFAULT_DELTA_OPTIONS: DeltaOptions = { baseMonth: null, significanceThreshold: 5 };
 
-export const fetchDataAndProcess = (selectedCategories: string[]): Promise<PivotedData & { rawData: RawDataRow[], allCategories: string[] }> => {
-  return new Promise((resolve, reject) => {
-    Papa.parse(GOOGLE_SHEET_URL, {
-      download: true,
-      header: true,
-      skipEmptyLines: true,
-      complete: (results: { data: RawDataRow[] }) => {
-        try {
-          const rawData = results.data;
-          const allCategories = [...new Set(rawData.map(r => r.CATEGORY).filter(Boolean))].sort();
-          const pivotedData = processData(rawData, selectedCategories.length > 0 ? selectedCategories : allCategories);
-          resolve({ ...pivotedData, rawData, allCategories });
-        } catch (error) {
-          reject(error);
-        }
-      },
-      error: (error: Error) => {
-        console.error("Error fetching or parsing data:", error);
-        reject(error);
-      },
-    });
-  });
+// Returns the month a cell is compared against, or null when there is nothing earlier to compare with.
+export const getComparisonMonth = (headers: TableHeaders, month: string, baseMonth: string | null): string | null => {
+    if (baseMonth !== null) {
+        return baseMonth === month ? null : baseMonth;
+    }
+    const index = headers.months.findIndex(m => m.name === month);
+    return index > 0 ? headers.months[index - 1].name : null;
 };
 
-export const downloadExcel = (pivotedData: PivotedData, sovType: SovType) => {
-    const { headers, rows } = pivotedData;
-    const aoa: (string | number)[][] = [];
-    const merges: any[] = [];
-
-    // Header Row 1: Months
-    const monthHeader: (string | number)[] = ['', ''];
-    let col = 2;
-    headers.months.forEach(month => {
-        let span = 0;
-        month.slots.forEach(slot => {
-            span += slot.brands.length;
-        });
-        monthHeader.push(month.name);
-        for (let i = 1; i < span; i++) monthHeader.push('');
-        if (span > 1) {
-            merges.push({ s: { r: 0, c: col }, e: { r: 0, c: col + span - 1 } });
-        }
-        col += span;
-    });
-    aoa.push(monthHeader);
+// Change in percentage points against the comparison month, or null when there is no comparison.
+export const getSovDelta = (
+    row: TableRow,
+    headers: TableHeaders,
+    month: string,
+    slot: string,
+    brand: string,
+    sovType: SovType,
+    deltaOptions: DeltaOptions
+): number | null => {
+    const comparisonMonth = getComparisonMonth(headers, month, deltaOptions.baseMonth);
+    if (!comparisonMonth) return null;
+    const current = row.data[month]?.[slot]?.[brand];
+    const base = row.data[comparisonMonth]?.[slot]?.[brand];
+    if (!current || !base) return null;
+    return current[sovType] - base[sovType];
+};
 
-    // Header Row 2: Slots
-    const slotHeader: (string | number)[] = ['', ''];
-    col = 2;
-    headers.months.forEach(month => {
-        month.slots.forEach(slot => {
-            const span = slot.brands.length;
-            slotHeader.push(slot.name);
-            for (let i = 1; i < span; i++) slotHeader.push('');
-            if (span > 1) {
-                merges.push({ s: { r: 1, c: col }, e: { r: 1, c: col + span - 1 } });
-            }
-            col += span;
-        });
-    });
-    aoa.push(slotHeader);
-    
-    // Header Row 3: Brands
-    const brandHeader = ['Platform', 'City'];
-    headers.months.forEach(month => {
-        month.slots.forEach(slot => {
-            brandHeader.push(...slot.brands);
-        });
-    });
-    aoa.push(brandHeader);
+// City cells with the largest SOV change from the second-to-last to the last period, biggest moves first.
+export const getTopMovers = (pivotedData: PivotedData, sovType: SovType, slot: string, limit: number): SovMover[] => {
+    const { headers, rows } = pivotedData;
+    if (headers.months.length < 2) return [];
+    const period = headers.months[headers.months.length - 1].name;
+    const previousPeriod = headers.months[headers.months.length - 2].name;
 
-    // Data Rows
-    rows.forEach(row => {
-         const flatRow: (string | number)[] = [row.platform, row.city];
-         headers.months.forEach(month => {
-           month.slots.forEach(slot => {
-             slot.brands.forEach(brand => {
-               const value = row.data[month.name]?.[slot.name]?.[brand]?.[sovType] ?? 0;
-               flatRow.push(parseFloat(value.toFixed(2)));
-             });
-           });
-         });
-        aoa.push(flatRow);
-    });
-    
-    const ws = XLSX.utils.aoa_to_sheet(aoa);
-    ws['!merges'] = merges;
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, 'SOV Report');
-    XLSX.writeFile(wb, 'Grupo_Bimbo_SOV_Report.xlsx');
+    return rows
+        .filter(row => row.rowType === TableRowType.City)
+        .flatMap(row => headers.allBrands.flatMap(brand => {
+            const current = row.data[period]?.[slot]?.[brand];
+            const previous = row.data[previousPeriod]?.[slot]?.[brand];
+            if (!current || !previous) return [];
+            return [{
+                platform: row.platform,
+                city: row.city,
+                brand,
+                slot,
+                previousPeriod,
+                period,
+                previous: previous[sovType],
+                current: current[sovType],
+                change: current[sovType] - previous[sovType],
+            }];
+        }))
+        .filter(mover => mover.change !== 0)
+        .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+        .slice(0, limit);
 };
 
-export const downloadCsv = (rawData: RawDataRow[]) => {
-    const csv = Papa.unparse(rawData);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+export const downloadBlob = (blob: Blob, filename: string) => {
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
-    link.setAttribute('download', 'raw_data.csv');
+    link.setAttribute('download', filename);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (rows: object[], fileName: string) => {
+    const csv = Papa.unparse(rows);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), fileName);
+};
+
+export const downloadText = (text: string, filename: string) => {
+    downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8;' }), filename);
+};
+
+export const downloadJson = (data: unknown, filename: string) => {
+    downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+};
+
+export const EXPORT_FILE_EXTENSIONS: { [format in ExportFormat]: string } = {
+    [ExportFormatEnum.Csv]: 'csv',
+    [ExportFormatEnum.Xlsx]: 'xlsx',
+    [ExportFormatEnum.Json]: 'json',
+};
+
+export const downloadRows = (rows: object[], format: ExportFormat, fileName: string, sheetName = 'Data') => {
+    const fullName = `${fileName}.${EXPORT_FILE_EXTENSIONS[format]}`;
+    if (format === ExportFormatEnum.Csv) {
+        downloadCsv(rows, fullName);
+    } else if (format === ExportFormatEnum.Json) {
+        downloadJson(rows, fullName);
+    } else {
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), sheetName);
+        XLSX.writeFile(workbook, fullName);
+    }
 };
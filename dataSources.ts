@@ -0,0 +1,128 @@
+import type { RawDataRow, DataSource, ProcessingProgress } from './types';
+import { DataSourceKind, ProcessingStage } from './types';
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+
+// Spreadsheet and JSON sources can hold numbers or nulls, while the rest of the app expects the string cells Papa.parse produces.
+const toRawDataRows = (records: unknown): RawDataRow[] => {
+    if (!Array.isArray(records)) {
+        throw new Error('Expected the data source to return a list of rows.');
+    }
+    return records
+        .filter((record): record is Record<string, unknown> => record !== null && typeof record === 'object')
+        .map(record => {
+            const row: { [column: string]: string } = {};
+            Object.entries(record).forEach(([column, value]) => {
+                row[column.trim()] = value === null || value === undefined ? '' : String(value);
+            });
+            return row as unknown as RawDataRow;
+        });
+};
+
+type ProgressCallback = (progress: ProcessingProgress) => void;
+
+// CSVs are parsed in chunks so progress can be reported while rows stream in. Only files know their size up front.
+const collectChunks = (rows: RawDataRow[], totalSize: number | null, onProgress?: ProgressCallback) =>
+    (results: Papa.ParseResult<RawDataRow>) => {
+        // A loop rather than push(...data): chunks can hold more rows than a call accepts as arguments.
+        for (const row of results.data) rows.push(row);
+        onProgress?.({
+            stage: ProcessingStage.Parsing,
+            rows: rows.length,
+            fraction: totalSize ? Math.min(results.meta.cursor / totalSize, 1) : null,
+        });
+    };
+
+const loadPublishedCsv = (url: string, onProgress?: ProgressCallback): Promise<RawDataRow[]> => {
+    const rows: RawDataRow[] = [];
+    onProgress?.({ stage: ProcessingStage.Downloading, rows: 0, fraction: null });
+    return new Promise((resolve, reject) => {
+        Papa.parse<RawDataRow>(url, {
+            download: true,
+            header: true,
+            skipEmptyLines: true,
+            chunk: collectChunks(rows, null, onProgress),
+            complete: () => resolve(rows),
+            error: (error: Error) => reject(error),
+        });
+    });
+};
+
+const loadCsvFile = (file: File, onProgress?: ProgressCallback): Promise<RawDataRow[]> => {
+    const rows: RawDataRow[] = [];
+    return new Promise((resolve, reject) => {
+        Papa.parse<RawDataRow>(file, {
+            header: true,
+            skipEmptyLines: true,
+            chunk: collectChunks(rows, file.size, onProgress),
+            complete: () => resolve(rows),
+            error: (error: Error) => reject(error),
+        });
+    });
+};
+
+const loadSpreadsheetFile = async (file: File, onProgress?: ProgressCallback): Promise<RawDataRow[]> => {
+    onProgress?.({ stage: ProcessingStage.Parsing, rows: 0, fraction: null });
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!firstSheet) {
+        throw new Error(`"${file.name}" does not contain any sheets.`);
+    }
+    // raw: false keeps the cell text as displayed in Excel, e.g. "Jun-25" rather than a date serial.
+    return toRawDataRows(XLSX.utils.sheet_to_json(firstSheet, { raw: false, defval: '' }));
+};
+
+const loadLocalFile = (file: File, onProgress?: ProgressCallback): Promise<RawDataRow[]> => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'xlsx' || extension === 'xls') {
+        return loadSpreadsheetFile(file, onProgress);
+    }
+    return loadCsvFile(file, onProgress);
+};
+
+const loadJsonEndpoint = async (url: string, onProgress?: ProgressCallback): Promise<RawDataRow[]> => {
+    onProgress?.({ stage: ProcessingStage.Downloading, rows: 0, fraction: null });
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`JSON endpoint responded with ${response.status} ${response.statusText}`);
+    }
+    const records: unknown = await response.json();
+    onProgress?.({ stage: ProcessingStage.Parsing, rows: Array.isArray(records) ? records.length : 0, fraction: 1 });
+    return toRawDataRows(records);
+};
+
+export const loadRawData = (source: DataSource, onProgress?: ProgressCallback): Promise<RawDataRow[]> => {
+    switch (source.kind) {
+        case DataSourceKind.PublishedSheet:
+            return loadPublishedCsv(source.url, onProgress);
+        case DataSourceKind.LocalFile:
+            return loadLocalFile(source.file, onProgress);
+        case DataSourceKind.JsonEndpoint:
+            return loadJsonEndpoint(source.url, onProgress);
+    }
+};
+
+// The workspace's own source is labelled as such rather than showing its URL.
+export const describeDataSource = (source: DataSource, workspaceSource: DataSource): string => {
+    if (getDataSourceKey(source) === getDataSourceKey(workspaceSource)) {
+        return 'Workspace data';
+    }
+    switch (source.kind) {
+        case DataSourceKind.PublishedSheet:
+        case DataSourceKind.JsonEndpoint:
+            return source.url;
+        case DataSourceKind.LocalFile:
+            return source.file.name;
+    }
+};
+
+// Identifies a source for caching. Files are keyed by name, size and modification time so re-picking the same file hits the cache.
+export const getDataSourceKey = (source: DataSource): string => {
+    switch (source.kind) {
+        case DataSourceKind.PublishedSheet:
+        case DataSourceKind.JsonEndpoint:
+            return `${source.kind}|${source.url}`;
+        case DataSourceKind.LocalFile:
+            return `${source.kind}|${source.file.name}|${source.file.size}|${source.file.lastModified}`;
+    }
+};
@@ -0,0 +1,95 @@
+import type { RawDataRow, PivotedData, PivotInput, CellImpressions, DataSource, DataSummary, FilterOptions, ProcessingProgress } from './types';
+import { ProcessingStage } from './types';
+import { loadRawData } from './dataSources';
+import { pivotSov, getCellImpressions } from './pivotEngine';
+import { summariseRows, getCategories, getFilterOptions, getKnownBrands } from './dataService';
+
+// Parses and pivots off the main thread. The dashboard talks to it through dataWorkerClient.ts.
+
+export interface PivotRequest extends Omit<PivotInput, 'rawData'> {
+    // Also pivot with every aggregate row and column, which the charts need whatever the table shows.
+    includeChartData: boolean;
+    // Also return every brand's impressions per cell, for benchmarking.
+    includeCellImpressions: boolean;
+}
+
+export interface PivotResult {
+    pivotedData: PivotedData;
+    chartData: PivotedData | null;
+    cellImpressions: CellImpressions | null;
+    // Every category in the rows under the request's taxonomy, whatever the filters.
+    categories: string[];
+    filterOptions: FilterOptions;
+    knownBrands: string[];
+}
+
+type RowOptions = Pick<PivotResult, 'categories' | 'filterOptions' | 'knownBrands'>;
+
+export type DataWorkerRequest =
+    | { id: number; type: 'load'; source: DataSource }
+    // rawData is only sent when it changed; the worker keeps the last rows it was given.
+    | { id: number; type: 'pivot'; request: PivotRequest; rawData?: RawDataRow[] };
+
+export type DataWorkerResponse =
+    | { id: number; type: 'progress'; progress: ProcessingProgress }
+    | { id: number; type: 'loaded'; rawData: RawDataRow[]; summary: DataSummary }
+    | { id: number; type: 'pivoted'; result: PivotResult }
+    | { id: number; type: 'error'; message: string };
+
+let rawData: RawDataRow[] = [];
+// The options only change with the rows and settings, not the filters, so they are kept between pivots.
+let rowOptions: { key: string; options: RowOptions } | null = null;
+
+const post = (response: DataWorkerResponse) => self.postMessage(response);
+
+const getErrorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+const getRowOptions = ({ brandConfig, taxonomy, slotConfig, timeOptions }: PivotRequest): RowOptions => {
+    const key = JSON.stringify([brandConfig, taxonomy, slotConfig, timeOptions]);
+    if (rowOptions?.key !== key) {
+        rowOptions = {
+            key,
+            options: {
+                categories: getCategories(rawData, taxonomy),
+                filterOptions: getFilterOptions(rawData, brandConfig, taxonomy, slotConfig, timeOptions),
+                knownBrands: getKnownBrands(rawData, brandConfig),
+            },
+        };
+    }
+    return rowOptions.options;
+};
+
+const pivot = (request: PivotRequest): PivotResult => {
+    const { includeChartData, includeCellImpressions, ...input } = request;
+    return {
+        ...getRowOptions(request),
+        pivotedData: pivotSov({ ...input, rawData }),
+        chartData: includeChartData
+            ? pivotSov({ ...input, rawData, aggregateOptions: { showPlatformTotals: true, showGrandTotal: true, showAllSlots: true } })
+            : null,
+        cellImpressions: includeCellImpressions ? getCellImpressions({ ...input, rawData }) : null,
+    };
+};
+
+self.onmessage = (event: MessageEvent<DataWorkerRequest>) => {
+    const message = event.data;
+    const onProgress = (progress: ProcessingProgress) => post({ id: message.id, type: 'progress', progress });
+
+    if (message.type === 'load') {
+        loadRawData(message.source, onProgress)
+            .then(rows => post({ id: message.id, type: 'loaded', rawData: rows, summary: summariseRows(rows) }))
+            .catch(error => post({ id: message.id, type: 'error', message: getErrorMessage(error) }));
+        return;
+    }
+
+    try {
+        if (message.rawData) {
+            rawData = message.rawData;
+            rowOptions = null;
+        }
+        onProgress({ stage: ProcessingStage.Pivoting, rows: rawData.length, fraction: null });
+        post({ id: message.id, type: 'pivoted', result: pivot(message.request) });
+    } catch (error) {
+        post({ id: message.id, type: 'error', message: getErrorMessage(error) });
+    }
+};
@@ -0,0 +1,124 @@
+import type { DataSource, LoadedData, RawDataRow, ProcessingProgress } from './types';
+import type { DataWorkerRequest, DataWorkerResponse, PivotRequest, PivotResult } from './dataWorker';
+import { getDataSourceKey } from './dataSources';
+
+type ProgressCallback = (progress: ProcessingProgress) => void;
+
+interface PendingRequest {
+    onProgress?: ProgressCallback;
+    resolve: (response: DataWorkerResponse) => void;
+    reject: (error: Error) => void;
+}
+
+// A lazily started worker with its requests in flight. Aborting a request terminates the worker, because a
+// running pivot is synchronous and can't be interrupted any other way; the next request starts a fresh one.
+const createWorkerChannel = () => {
+    let worker: Worker | null = null;
+    let nextId = 1;
+    const pending = new Map<number, PendingRequest>();
+
+    const stop = (error: Error) => {
+        worker?.terminate();
+        worker = null;
+        pending.forEach(request => request.reject(error));
+        pending.clear();
+    };
+
+    const start = (): Worker => {
+        const started = new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' });
+        started.onmessage = (event: MessageEvent<DataWorkerResponse>) => {
+            const response = event.data;
+            const request = pending.get(response.id);
+            if (!request) return;
+            if (response.type === 'progress') {
+                request.onProgress?.(response.progress);
+                return;
+            }
+            pending.delete(response.id);
+            if (response.type === 'error') {
+                request.reject(new Error(response.message));
+            } else {
+                request.resolve(response);
+            }
+        };
+        started.onerror = event => stop(new Error(event.message || 'The data worker stopped unexpectedly.'));
+        return started;
+    };
+
+    return {
+        // False after the worker was stopped, so anything sent to it earlier has to be sent again.
+        isRunning: () => worker !== null,
+        // onPosted runs once the message is actually with the worker, which a request rejected up front never is.
+        send: (createMessage: (id: number) => DataWorkerRequest, onProgress?: ProgressCallback, signal?: AbortSignal, onPosted?: () => void) =>
+            new Promise<DataWorkerResponse>((resolve, reject) => {
+                if (signal?.aborted) {
+                    reject(new Error('The request was cancelled.'));
+                    return;
+                }
+                if (!worker) worker = start();
+                const id = nextId++;
+                pending.set(id, { onProgress, resolve, reject });
+                signal?.addEventListener('abort', () => {
+                    if (pending.has(id)) stop(new Error('The request was cancelled.'));
+                }, { once: true });
+                worker.postMessage(createMessage(id));
+                onPosted?.();
+            }),
+    };
+};
+
+// Its own worker, so cancelling a pivot never interrupts a download.
+const loadChannel = createWorkerChannel();
+
+// Raw rows are kept per source so that filter changes only re-pivot in memory.
+// Entries older than RAW_DATA_MAX_AGE_MS are re-downloaded on the next request.
+const RAW_DATA_MAX_AGE_MS = 15 * 60 * 1000;
+const rawDataCache = new Map<string, LoadedData>();
+
+export const fetchRawData = (
+    source: DataSource,
+    forceRefresh = false,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+): Promise<LoadedData> => {
+    const cacheKey = getDataSourceKey(source);
+    const cached = rawDataCache.get(cacheKey);
+    if (cached && !forceRefresh && Date.now() - cached.fetchedAt.getTime() < RAW_DATA_MAX_AGE_MS) {
+        return Promise.resolve(cached);
+    }
+
+    return loadChannel.send(id => ({ id, type: 'load', source }), onProgress, signal)
+        .then(response => {
+            if (response.type !== 'loaded') throw new Error(`Unexpected "${response.type}" response from the data worker.`);
+            const loaded: LoadedData = { rawData: response.rawData, summary: response.summary, fetchedAt: new Date() };
+            rawDataCache.set(cacheKey, loaded);
+            return loaded;
+        })
+        .catch(error => {
+            if (!signal?.aborted) console.error("Error fetching or parsing data:", error);
+            throw error;
+        });
+};
+
+// Runs pivotSov in a worker of its own. The rows are only posted when they changed or the worker was restarted,
+// so a filter change costs a message with the options rather than a copy of every row.
+const createPivotChannel = () => {
+    const channel = createWorkerChannel();
+    let rowsInWorker: RawDataRow[] | null = null;
+
+    return (rawData: RawDataRow[], request: PivotRequest, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<PivotResult> => {
+        const sendRows = !channel.isRunning() || rowsInWorker !== rawData;
+        return channel.send(id => ({ id, type: 'pivot', request, rawData: sendRows ? rawData : undefined }), onProgress, signal, () => {
+            rowsInWorker = rawData;
+        })
+            .then(response => {
+                if (response.type !== 'pivoted') throw new Error(`Unexpected "${response.type}" response from the data worker.`);
+                return response.result;
+            });
+    };
+};
+
+// The dashboard cancels a pivot whenever the filters change, which stops its worker. Reports pivot in a
+// second worker so that never takes a report's trend data down with it.
+export const pivotInWorker = createPivotChannel();
+export const pivotReportInWorker = createPivotChannel();
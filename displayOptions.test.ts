@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import type { PivotedData, TableRow } from './types';
+import { HeatmapScope, TableRowType, SovType } from './types';
+import { createHeatmap, getPlatformColor, parseDisplayOptions, DEFAULT_DISPLAY_OPTIONS } from './displayOptions';
+import { tableRow, sov } from './testFixtures';
+
+// Overall SOVs for BIN and Britannia in the Morning slot, then in the Evening slot.
+const cityRow = (city: string, values: [number, number, number, number], rowType = TableRowType.City): TableRow => tableRow({
+    city,
+    rowType,
+    data: {
+        "Jun'25": {
+            'Morning SOV': { BIN: sov(values[0]), Britannia: sov(values[1]) },
+            'Evening SOV': { BIN: sov(values[2]), Britannia: sov(values[3]) },
+        },
+    },
+});
+
+const pivotedData: PivotedData = {
+    headers: {
+        months: [{ name: "Jun'25", slots: [{ name: 'Morning SOV', brands: ['BIN', 'Britannia'] }, { name: 'Evening SOV', brands: ['BIN', 'Britannia'] }] }],
+        allBrands: ['BIN', 'Britannia'],
+    },
+    rows: [
+        cityRow('Pune', [10, 90, 40, 60]),
+        cityRow('Delhi', [50, 50, 0, 100]),
+        cityRow('All Cities', [100, 0, 100, 0], TableRowType.PlatformTotal),
+    ],
+};
+
+const getValue = (row: TableRow, month: string, slot: string, brand: string) => row.data[month]?.[slot]?.[brand]?.[SovType.Overall] ?? null;
+
+const WHITE = 'rgb(255, 255, 255)';
+const GREEN = 'rgb(99, 190, 123)';
+const RED = 'rgb(248, 105, 107)';
+
+describe('createHeatmap', () => {
+    it('scales each month/slot column group separately, leaving totals uncoloured', () => {
+        const getColor = createHeatmap(pivotedData, HeatmapScope.ColumnGroup, getValue, false);
+        const [pune, delhi, total] = pivotedData.rows;
+
+        expect(getColor(pune, "Jun'25", 'Morning SOV', 'BIN')).toBe(WHITE);
+        expect(getColor(pune, "Jun'25", 'Morning SOV', 'Britannia')).toBe(GREEN);
+        expect(getColor(delhi, "Jun'25", 'Evening SOV', 'BIN')).toBe(WHITE);
+        expect(getColor(delhi, "Jun'25", 'Evening SOV', 'Britannia')).toBe(GREEN);
+        expect(getColor(total, "Jun'25", 'Morning SOV', 'BIN')).toBeUndefined();
+    });
+
+    it('scales per row or across the whole table', () => {
+        const [pune, delhi] = pivotedData.rows;
+        const byRow = createHeatmap(pivotedData, HeatmapScope.Row, getValue, false);
+        const global = createHeatmap(pivotedData, HeatmapScope.Global, getValue, false);
+
+        expect(byRow(pune, "Jun'25", 'Morning SOV', 'BIN')).toBe(WHITE);
+        expect(byRow(pune, "Jun'25", 'Morning SOV', 'Britannia')).toBe(GREEN);
+        expect(global(pune, "Jun'25", 'Morning SOV', 'Britannia')).toBe('rgb(115, 197, 136)');
+        expect(global(delhi, "Jun'25", 'Evening SOV', 'Britannia')).toBe(GREEN);
+        expect(createHeatmap(pivotedData, HeatmapScope.Off, getValue, false)(pune, "Jun'25", 'Morning SOV', 'BIN')).toBeUndefined();
+    });
+
+    it('colours changes red below zero and green above it', () => {
+        const [pune, delhi] = pivotedData.rows;
+        const getChange = (row: TableRow, month: string, slot: string, brand: string) => (getValue(row, month, slot, brand) ?? 0) - 50;
+        const getColor = createHeatmap(pivotedData, HeatmapScope.Global, getChange, true);
+
+        expect(getColor(delhi, "Jun'25", 'Evening SOV', 'BIN')).toBe(RED);
+        expect(getColor(delhi, "Jun'25", 'Evening SOV', 'Britannia')).toBe(GREEN);
+        expect(getColor(delhi, "Jun'25", 'Morning SOV', 'BIN')).toBe(WHITE);
+        expect(getColor(pune, "Jun'25", 'Morning SOV', 'BIN')).toBe('rgb(249, 135, 137)');
+    });
+});
+
+describe('display options', () => {
+    it('matches platform colours case-insensitively', () => {
+        expect(getPlatformColor({ Instamart: '#f0f9ff' }, 'INSTAMART')).toBe('#f0f9ff');
+        expect(getPlatformColor({ Instamart: '#f0f9ff' }, 'Zepto')).toBeUndefined();
+    });
+
+    it('rejects invalid stored options', () => {
+        expect(parseDisplayOptions(DEFAULT_DISPLAY_OPTIONS)).toEqual(DEFAULT_DISPLAY_OPTIONS);
+        expect(() => parseDisplayOptions({ ...DEFAULT_DISPLAY_OPTIONS, decimals: 7 })).toThrow('"decimals"');
+        expect(() => parseDisplayOptions({ ...DEFAULT_DISPLAY_OPTIONS, platformColors: { Zepto: 'purple' } })).toThrow('#rrggbb');
+    });
+});
@@ -0,0 +1,122 @@
+import type { DisplayOptions, PivotedData, TableRow } from './types';
+import { HeatmapScope, TableRowType } from './types';
+
+export const DEFAULT_DISPLAY_OPTIONS: DisplayOptions = {
+    heatmap: HeatmapScope.Off,
+    decimals: 2,
+    hideEmptyValues: false,
+    highlightFocusBrand: false,
+    platformColors: { Instamart: '#f0f9ff' },
+};
+
+export const MAX_DECIMALS = 4;
+
+const getStorageKey = (tenantId: string) => `sov-dashboard.displayOptions.${tenantId}`;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const getPlatformColor = (platformColors: DisplayOptions['platformColors'], platform: string): string | undefined => {
+    const key = platform.toLowerCase();
+    return Object.entries(platformColors).find(([name]) => name.toLowerCase() === key)?.[1];
+};
+
+// The colour scale Excel's default three-colour scale uses, so the table and the report look alike.
+const SCALE_LOW = [0xf8, 0x69, 0x6b];
+const SCALE_MID = [0xff, 0xff, 0xff];
+const SCALE_HIGH = [0x63, 0xbe, 0x7b];
+
+const mix = (from: number[], to: number[], t: number): string =>
+    `rgb(${from.map((channel, i) => Math.round(channel + (to[i] - channel) * Math.min(1, Math.max(0, t)))).join(', ')})`;
+
+interface HeatmapRange {
+    min: number;
+    max: number;
+}
+
+export type HeatmapValueGetter = (row: TableRow, month: string, slot: string, brand: string) => number | null;
+export type HeatmapColorGetter = (row: TableRow, month: string, slot: string, brand: string) => string | undefined;
+
+const getGroupKey = (scope: HeatmapScope, row: TableRow, month: string, slot: string): string => {
+    if (scope === HeatmapScope.Row) return `${row.platform}|${row.city}`;
+    if (scope === HeatmapScope.ColumnGroup) return `${month}|${slot}`;
+    return '';
+};
+
+// Returns the background for each cell under the chosen scope, or undefined for no colour. SOVs run from white at
+// the group's lowest value to green at its highest; changes (diverging) run red below zero and green above it.
+// Only city rows are coloured and measured, so platform and grand totals don't flatten the scale.
+export const createHeatmap = (
+    pivotedData: PivotedData,
+    scope: HeatmapScope,
+    getValue: HeatmapValueGetter,
+    diverging: boolean
+): HeatmapColorGetter => {
+    if (scope === HeatmapScope.Off) return () => undefined;
+    const { headers, rows } = pivotedData;
+    const ranges = new Map<string, HeatmapRange>();
+    rows.filter(row => row.rowType === TableRowType.City).forEach(row =>
+        headers.months.forEach(month => month.slots.forEach(slot => slot.brands.forEach(brand => {
+            const value = getValue(row, month.name, slot.name, brand);
+            if (value === null) return;
+            const key = getGroupKey(scope, row, month.name, slot.name);
+            const range = ranges.get(key);
+            if (range) {
+                range.min = Math.min(range.min, value);
+                range.max = Math.max(range.max, value);
+            } else {
+                ranges.set(key, { min: value, max: value });
+            }
+        })))
+    );
+
+    return (row, month, slot, brand) => {
+        if (row.rowType !== TableRowType.City) return undefined;
+        const value = getValue(row, month, slot, brand);
+        const range = ranges.get(getGroupKey(scope, row, month, slot));
+        if (value === null || !range) return undefined;
+        if (diverging) {
+            if (value < 0) return mix(SCALE_MID, SCALE_LOW, value / range.min);
+            return mix(SCALE_MID, SCALE_HIGH, range.max > 0 ? value / range.max : 0);
+        }
+        return mix(SCALE_MID, SCALE_HIGH, range.max > range.min ? (value - range.min) / (range.max - range.min) : 0);
+    };
+};
+
+export const parseDisplayOptions = (value: unknown): DisplayOptions => {
+    if (!value || typeof value !== 'object') {
+        throw new Error('Display options must be a JSON object.');
+    }
+    const { heatmap, decimals, hideEmptyValues, highlightFocusBrand, platformColors } = value as Record<string, unknown>;
+
+    if (!Object.values(HeatmapScope).includes(heatmap as HeatmapScope)) {
+        throw new Error('"heatmap" must be one of the heatmap scopes.');
+    }
+    if (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+        throw new Error(`"decimals" must be a whole number from 0 to ${MAX_DECIMALS}.`);
+    }
+    if (!platformColors || typeof platformColors !== 'object' || !Object.values(platformColors).every(color => typeof color === 'string' && HEX_COLOR.test(color))) {
+        throw new Error('"platformColors" must map platform names to #rrggbb colours.');
+    }
+
+    return {
+        heatmap: heatmap as HeatmapScope,
+        decimals,
+        hideEmptyValues: hideEmptyValues === true,
+        highlightFocusBrand: highlightFocusBrand === true,
+        platformColors: { ...platformColors as { [platform: string]: string } },
+    };
+};
+
+export const loadDisplayOptions = (tenantId: string): DisplayOptions => {
+    try {
+        const stored = localStorage.getItem(getStorageKey(tenantId));
+        return stored ? parseDisplayOptions(JSON.parse(stored)) : DEFAULT_DISPLAY_OPTIONS;
+    } catch (error) {
+        console.warn('Ignoring invalid stored display options:', error);
+        return DEFAULT_DISPLAY_OPTIONS;
+    }
+};
+
+export const saveDisplayOptions = (tenantId: string, options: DisplayOptions) => {
+    localStorage.setItem(getStorageKey(tenantId), JSON.stringify(options));
+};
@@ -0,0 +1,249 @@
+import type { Workbook, Worksheet, Border, Fill } from 'exceljs';
+import type { PivotedData, TableRow, RawDataRow, DeltaOptions, DashboardFilters, TimeOptions, DisplayOptions } from './types';
+import { SovType, TableRowType } from './types';
+import { getSovDelta, downloadBlob } from './dataService';
+import { getPlatformColor } from './displayOptions';
+
+export interface ExcelReportMetadata {
+    clientName: string;
+    dataSourceLabel: string;
+    fetchedAt: Date | null;
+    filters: DashboardFilters;
+    // Categories in the report: the selected ones, or every category when none is selected.
+    categories: string[];
+    timeOptions: TimeOptions;
+    focusSovType: SovType;
+    platformColors: DisplayOptions['platformColors'];
+    decimals: DisplayOptions['decimals'];
+}
+
+// Colours follow the Tailwind classes SovTable uses on screen.
+const COLORS = {
+    header: 'FFF9FAFB',
+    platformTotal: 'FFF3F4F6',
+    grandTotal: 'FFEEF2FF',
+    gridLine: 'FFE5E7EB',
+    groupLine: 'FF9CA3AF',
+    scaleLow: 'FFF8696B',
+    scaleMid: 'FFFFFFFF',
+    scaleHigh: 'FF63BE7B',
+};
+
+const HEADER_ROWS = 3;
+const NAME_COLUMNS = 2;
+
+// Number formats with the decimal places the table shows.
+const getNumberFormat = (decimals: number, isDelta: boolean): string => {
+    const digits = decimals > 0 ? `0.${'0'.repeat(decimals)}` : '0';
+    return isDelta ? `+${digits}" pp";-${digits}" pp";${digits}" pp"` : `${digits}%`;
+};
+
+const solidFill = (argb: string): Fill => ({ type: 'pattern', pattern: 'solid', fgColor: { argb } });
+
+const getRowFill = (row: TableRow, platformColors: ExcelReportMetadata['platformColors']): Fill | undefined => {
+    if (row.rowType === TableRowType.GrandTotal) return solidFill(COLORS.grandTotal);
+    if (row.rowType === TableRowType.PlatformTotal) return solidFill(COLORS.platformTotal);
+    const platformColor = getPlatformColor(platformColors, row.platform);
+    return platformColor ? solidFill(`FF${platformColor.slice(1).toUpperCase()}`) : undefined;
+};
+
+// Left border of each value column: thick between months, medium between slots, a grid line otherwise.
+const getColumnBorders = ({ headers }: PivotedData): Partial<Border>[] =>
+    headers.months.flatMap((month, monthIndex) =>
+        month.slots.flatMap((slot, slotIndex) =>
+            slot.brands.map((_, brandIndex): Partial<Border> => {
+                if (monthIndex > 0 && slotIndex === 0 && brandIndex === 0) return { style: 'thick', color: { argb: COLORS.groupLine } };
+                if (slotIndex > 0 && brandIndex === 0) return { style: 'medium', color: { argb: COLORS.groupLine } };
+                return { style: 'thin', color: { argb: COLORS.gridLine } };
+            })
+        )
+    );
+
+// Lays out the three header rows (month, slot, brand) with frozen Platform/City columns and fills the body from getValue.
+// Values are SOV percentages, written as fractions so Excel's percent format shows them as on screen.
+const addPivotSheet = (
+    workbook: Workbook,
+    name: string,
+    pivotedData: PivotedData,
+    getValue: (row: TableRow, month: string, slot: string, brand: string) => number | null,
+    isDelta: boolean,
+    { platformColors, decimals }: ExcelReportMetadata
+): Worksheet => {
+    const { headers, rows } = pivotedData;
+    const sheet = workbook.addWorksheet(name, {
+        views: [{ state: 'frozen', xSplit: NAME_COLUMNS, ySplit: HEADER_ROWS }],
+    });
+    const columnBorders = getColumnBorders(pivotedData);
+    const valueColumnCount = columnBorders.length;
+    const numberFormat = getNumberFormat(decimals, isDelta);
+
+    sheet.getColumn(1).width = 16;
+    sheet.getColumn(2).width = 20;
+    for (let i = 0; i < valueColumnCount; i++) sheet.getColumn(NAME_COLUMNS + 1 + i).width = 12;
+
+    sheet.getCell(1, 1).value = 'Platform';
+    sheet.getCell(1, 2).value = 'City';
+    sheet.mergeCells(1, 1, HEADER_ROWS, 1);
+    sheet.mergeCells(1, 2, HEADER_ROWS, 2);
+
+    let col = NAME_COLUMNS + 1;
+    headers.months.forEach(month => {
+        const monthStart = col;
+        month.slots.forEach(slot => {
+            sheet.getCell(2, col).value = slot.name;
+            if (slot.brands.length > 1) sheet.mergeCells(2, col, 2, col + slot.brands.length - 1);
+            slot.brands.forEach(brand => {
+                sheet.getCell(3, col).value = brand;
+                col++;
+            });
+        });
+        sheet.getCell(1, monthStart).value = month.name;
+        if (col - monthStart > 1) sheet.mergeCells(1, monthStart, 1, col - 1);
+    });
+
+    for (let r = 1; r <= HEADER_ROWS; r++) {
+        for (let c = 1; c <= NAME_COLUMNS + valueColumnCount; c++) {
+            const cell = sheet.getCell(r, c);
+            cell.font = { bold: true, color: { argb: 'FF4B5563' } };
+            cell.fill = solidFill(COLORS.header);
+            cell.alignment = { horizontal: c <= NAME_COLUMNS ? 'left' : 'center', vertical: 'middle' };
+            cell.border = {
+                left: c > NAME_COLUMNS ? columnBorders[c - NAME_COLUMNS - 1] : undefined,
+                bottom: { style: r === HEADER_ROWS ? 'medium' : 'thin', color: { argb: COLORS.groupLine } },
+            };
+        }
+    }
+
+    rows.forEach((row, rowIndex) => {
+        const values = headers.months.flatMap(month =>
+            month.slots.flatMap(slot =>
+                slot.brands.map(brand => {
+                    if (row.data[month.name]?.[slot.name]?.[brand] === undefined) return null;
+                    const value = getValue(row, month.name, slot.name, brand);
+                    return value === null ? null : isDelta ? value : value / 100;
+                })
+            )
+        );
+        const sheetRow = sheet.addRow([row.platform, row.city, ...values]);
+        const fill = getRowFill(row, platformColors);
+        const isAggregate = row.rowType !== TableRowType.City;
+        // Matches the heavier rule SovTable draws above the first row of each platform.
+        const top: Partial<Border> | undefined = row.isFirstInPlatform && rowIndex > 0
+            ? { style: 'medium', color: { argb: COLORS.groupLine } }
+            : undefined;
+
+        sheetRow.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+            if (fill) cell.fill = fill;
+            if (isAggregate) cell.font = { bold: true };
+            cell.border = {
+                top,
+                left: colNumber > NAME_COLUMNS ? columnBorders[colNumber - NAME_COLUMNS - 1] : { style: 'thin', color: { argb: COLORS.gridLine } },
+                bottom: { style: 'thin', color: { argb: COLORS.gridLine } },
+            };
+            if (colNumber > NAME_COLUMNS) {
+                cell.numFmt = numberFormat;
+                cell.alignment = { horizontal: 'center' };
+            }
+        });
+    });
+
+    if (rows.length > 0 && valueColumnCount > 0) {
+        const firstCell = sheet.getCell(HEADER_ROWS + 1, NAME_COLUMNS + 1).address;
+        const lastCell = sheet.getCell(HEADER_ROWS + rows.length, NAME_COLUMNS + valueColumnCount).address;
+        sheet.addConditionalFormatting({
+            ref: `${firstCell}:${lastCell}`,
+            rules: [isDelta
+                ? {
+                    type: 'colorScale',
+                    priority: 1,
+                    cfvo: [{ type: 'min' }, { type: 'num', value: 0 }, { type: 'max' }],
+                    color: [{ argb: COLORS.scaleLow }, { argb: COLORS.scaleMid }, { argb: COLORS.scaleHigh }],
+                }
+                : {
+                    type: 'colorScale',
+                    priority: 1,
+                    cfvo: [{ type: 'min' }, { type: 'max' }],
+                    color: [{ argb: COLORS.scaleMid }, { argb: COLORS.scaleHigh }],
+                }],
+        });
+    }
+
+    return sheet;
+};
+
+const addRawDataSheet = (workbook: Workbook, rawData: RawDataRow[]) => {
+    const sheet = workbook.addWorksheet('Raw Data', { views: [{ state: 'frozen', ySplit: 1 }] });
+    const columns = [...new Set(rawData.flatMap(row => Object.keys(row)))];
+    sheet.columns = columns.map(key => ({ header: key, key, width: Math.max(12, key.length + 2) }));
+    rawData.forEach(row => {
+        sheet.addRow(Object.fromEntries(Object.entries(row).map(([key, value]) =>
+            // Impressions are kept as numbers so the sheet can be summed and pivoted in Excel.
+            [key, key.endsWith('_IMPRESSIONS') && /^\d+$/.test(value ?? '') ? parseInt(value, 10) : value]
+        )));
+    });
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(1).fill = solidFill(COLORS.header);
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+};
+
+const formatSelection = (selected: string[]) => selected.length > 0 ? selected.join(', ') : 'All';
+
+const addMetadataSheet = (workbook: Workbook, metadata: ExcelReportMetadata, rawRowCount: number, deltaOptions?: DeltaOptions) => {
+    const { filters, timeOptions } = metadata;
+    const sheet = workbook.addWorksheet('Report Info');
+    sheet.columns = [{ width: 22 }, { width: 80 }];
+    const rows: [string, string | number][] = [
+        ['Client', metadata.clientName],
+        ['Generated', new Date().toLocaleString()],
+        ['Data source', metadata.dataSourceLabel],
+        ['Data loaded', metadata.fetchedAt ? metadata.fetchedAt.toLocaleString() : 'Unknown'],
+        ['Raw rows', rawRowCount],
+        ['Time grain', timeOptions.grain],
+        ['Month to date', timeOptions.monthToDate ? 'Yes' : 'No'],
+        ['Periods', filters.monthRange ? `${filters.monthRange.from} to ${filters.monthRange.to}` : 'All'],
+        ['Platforms', formatSelection(filters.platforms)],
+        ['Cities', formatSelection(filters.cities)],
+        ['Slots', formatSelection(filters.slots)],
+        ['Brands', formatSelection(filters.brands)],
+        ['Comparison', deltaOptions
+            ? `${metadata.focusSovType} change vs ${deltaOptions.baseMonth ?? 'the previous period'}`
+            : 'None'],
+        ['Categories', metadata.categories.length],
+        ...metadata.categories.map((category): [string, string] => ['', category]),
+    ];
+    rows.forEach(([label, value]) => sheet.addRow([label, value]));
+    sheet.getColumn(1).font = { bold: true };
+    sheet.getColumn(2).alignment = { horizontal: 'left', wrapText: true };
+};
+
+// Builds one workbook with a sheet per SOV type, the optional change sheet for the selected SOV type,
+// the raw rows and a sheet describing how the report was filtered. exceljs is only loaded when a report is exported.
+export const downloadExcelReport = async (
+    pivotedData: PivotedData,
+    rawData: RawDataRow[],
+    metadata: ExcelReportMetadata,
+    fileName: string,
+    deltaOptions?: DeltaOptions
+) => {
+    const { default: ExcelJS } = await import('exceljs');
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    Object.values(SovType).forEach(sovType => {
+        addPivotSheet(workbook, sovType, pivotedData, (row, month, slot, brand) => row.data[month][slot][brand][sovType], false, metadata);
+    });
+
+    if (deltaOptions) {
+        const { focusSovType } = metadata;
+        // Excel caps sheet names at 31 characters.
+        const sheetName = `${focusSovType} vs ${deltaOptions.baseMonth ?? 'Prev Period'}`.slice(0, 31);
+        addPivotSheet(workbook, sheetName, pivotedData, (row, month, slot, brand) =>
+            getSovDelta(row, pivotedData.headers, month, slot, brand, focusSovType, deltaOptions), true, metadata);
+    }
+
+    addRawDataSheet(workbook, rawData);
+    addMetadataSheet(workbook, metadata, rawData.length, deltaOptions);
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    downloadBlob(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), fileName);
+};
@@ -0,0 +1,105 @@
+import type { Plugin } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { Account, AuthSession } from './types';
+import { MOCK_TENANTS } from './mockTenants';
+
+// A development stand-in for the sign-in service. It only runs inside `vite dev`, so neither the
+// accounts nor the passwords below end up in the production bundle.
+
+interface MockAccount extends Account {
+    accountName: string;
+    password: string;
+}
+
+const DEFAULT_MOCK_ACCOUNTS: MockAccount[] = [
+    { id: 'grupo-bimbo', accountName: 'Grupobimbo', password: 'Grupobimbo', displayName: 'Grupo Bimbo', tenantId: 'grupo-bimbo' },
+];
+
+const SESSION_DURATION_MS = 8 * 60 * 60 * 1000;
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest();
+
+const passwordsMatch = (given: string, expected: string) => timingSafeEqual(sha256(given), sha256(expected));
+
+const readJsonBody = (req: IncomingMessage): Promise<Record<string, unknown>> => {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            try {
+                resolve(body ? JSON.parse(body) : {});
+            } catch (error) {
+                reject(error);
+            }
+        });
+        req.on('error', reject);
+    });
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+};
+
+// Accounts can be overridden with MOCK_AUTH_ACCOUNTS, a JSON list of { id, accountName, password, displayName, tenantId }.
+// tenantId must be one of the workspaces in mockTenants.ts.
+export const mockAuthServer = (accountsJson?: string): Plugin => {
+    const accounts: MockAccount[] = accountsJson ? JSON.parse(accountsJson) : DEFAULT_MOCK_ACCOUNTS;
+    const sessions = new Map<string, AuthSession>();
+
+    return {
+        name: 'mock-auth-server',
+        apply: 'serve',
+        configureServer(server) {
+            server.middlewares.use('/api/auth', (req, res) => {
+                if (req.method === 'POST' && req.url === '/login') {
+                    readJsonBody(req)
+                        .then(({ accountName, password }) => {
+                            const account = accounts.find(a => a.accountName === accountName);
+                            if (!account || typeof password !== 'string' || !passwordsMatch(password, account.password)) {
+                                sendJson(res, 401, { error: 'Invalid credentials' });
+                                return;
+                            }
+                            const session: AuthSession = {
+                                token: randomUUID(),
+                                account: { id: account.id, displayName: account.displayName, tenantId: account.tenantId },
+                                expiresAt: Date.now() + SESSION_DURATION_MS,
+                            };
+                            sessions.set(session.token, session);
+                            sendJson(res, 200, session);
+                        })
+                        .catch(() => sendJson(res, 400, { error: 'Malformed request body' }));
+                    return;
+                }
+
+                const token = req.headers.authorization?.replace(/^Bearer /, '');
+
+                if (req.method === 'GET' && req.url === '/tenant') {
+                    const session = token ? sessions.get(token) : undefined;
+                    if (!session || session.expiresAt <= Date.now()) {
+                        sendJson(res, 401, { error: 'Not signed in' });
+                        return;
+                    }
+                    const tenant = MOCK_TENANTS[session.account.tenantId];
+                    if (!tenant) {
+                        sendJson(res, 404, { error: `No workspace "${session.account.tenantId}"` });
+                        return;
+                    }
+                    sendJson(res, 200, tenant);
+                    return;
+                }
+
+                if (req.method === 'POST' && req.url === '/logout') {
+                    if (token) sessions.delete(token);
+                    res.statusCode = 204;
+                    res.end();
+                    return;
+                }
+
+                sendJson(res, 404, { error: 'Not found' });
+            });
+        },
+    };
+};
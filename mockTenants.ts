@@ -0,0 +1,75 @@
+import type { TenantConfig } from './types';
+import { DataSourceKind } from './types';
+
+// Workspaces served by the development sign-in mock. In production these come from the sign-in service,
+// so one client's sheet URL and brand setup never ship in another client's bundle.
+
+const GRUPO_BIMBO: TenantConfig = {
+    id: 'grupo-bimbo',
+    clientName: 'Grupo Bimbo',
+    dataSource: {
+        kind: DataSourceKind.PublishedSheet,
+        url: 'https://docs.google.com/spreadsheets/d/e/2PACX-1vRGeb21fuLgx3bUPZr2IXBocdbR4Co0S6GcKlb0GDk5aIYPt-e55C5307txc7m3-f_lgVqQTZMITArb/pub?gid=0&single=true&output=csv',
+    },
+    brandConfig: {
+        groups: [
+            { name: 'BIN', members: ['Modern', "Baker's Loaf", 'Harvest Gold'] },
+        ],
+        aliases: [
+            { canonical: "The Baker's Dozen", spellings: ['Bakers Dozen', "Baker's Dozen", 'The Bakers Dozen'] },
+        ],
+        visibleBrands: [
+            'BIN',
+            'Britannia',
+            'Bonn',
+            'English Oven',
+            'The Health Factory',
+            'Protein Chef',
+            "The Baker's Dozen",
+        ],
+    },
+    focusBrand: 'BIN',
+    taxonomy: {
+        version: 1,
+        updatedAt: '2025-07-01T00:00:00.000Z',
+        rules: [
+            { category: 'Bread - Speciality', keywords: ['millet bread', 'pita bread', 'sandwich bread', 'sub bread', 'cream bread', 'bread multigrain', 'sourdough bread', 'fruit bread', 'bread stick', 'bread loaf', 'protein bread', 'ragi bread', 'sour dough bread', 'the health factory multi protein bread'] },
+            { category: 'Brown Bread', keywords: ['brown bread', 'bread brown'] },
+            { category: 'Pav', keywords: ['pav', 'paav', 'milk pav', 'buns and pav', 'modern pav', 'vada pav', 'wow pav', 'whole wheat pav', 'atta pav', 'pav bhaji bread', 'harvest pav', 'britannia pav', 'mumbai pav', 'zero maida pav', 'ladi pav', 'bombay pav', 'pav bread', 'wheat pav', 'pav buns', 'pav bhaji'] },
+            { category: 'Atta/Whole Wheat Bread', keywords: ['bread wheat', 'multi grain bread', 'bread atta', 'no maida bread', 'multigrain bread', 'gluten free bread', 'whole wheat bread', 'atta bread', 'wheat bread', 'whole grain bread'] },
+            { category: 'Bread - Generic', keywords: ['bread', 'breads', 'bread small', 'fresh bread', 'milk bread', 'jumbo bread', 'slice bread', 'white bread', 'healthy bread', 'vegan bread', 'high protein bread', 'breakfast bread', 'elite bread', 'whole bread', 'half bread', 'small bread'] },
+            { category: 'Bread - Branded', keywords: ['modern sandwich bread', 'harvest bread', 'modern bread', 'english oven brown bread', 'modern milk bread', 'harvest gold bread'] },
+            { category: 'Bread - Comp.', keywords: ['navya bread', 'britannia bread', 'britannia milk bread', 'britannia multigrain bread', 'britannia brown bread', 'kwality bread', 'bonn brown bread', 'wibs bread', 'the health factory bread', 'suchali bread', 'bonn bread', 'amul bread', 'bakers dozen bread', 'english bread', 'id bread'] },
+            { category: 'Hot Dog', keywords: ['hotdog bun', 'hot dog bun'] },
+            { category: 'Footlong', keywords: ['footlong', 'sub footlong'] },
+            { category: 'Pizza Base', keywords: ['pizza base', 'wheat pizza base', 'zero maida pizza base', 'english oven pizza base', 'modern pizza base', 'the health factory zero maida pizza base'] },
+            { category: 'Kulcha', keywords: ['kulcha', 'atta kulcha', 'kulcha bread', 'harvest kulcha'] },
+            { category: 'Bun', keywords: ['bun', 'danish bun', 'cream bun', 'fruit bun', 'sweet bun', 'cream buns', 'sweet buns', 'vanilla cream bun', 'wheat bun', 'english oven buns', 'bread and buns', 'buns', 'britannia bun', 'raisin bun', 'navya bun', 'bao bun'] },
+            { category: 'Burger Bun', keywords: ['burger buns', 'burger bun', 'burger bread', 'english oven burger buns', 'atta burger buns'] },
+            { category: 'Rusk', keywords: ['rusk', 'garlic rusk', 'rusk toast', 'suji rusk', 'butter toast', 'healthy rusk', 'toast bread', 'cake rusk', 'toast', 'bakery rusk', 'fruit cake rusk'] },
+            { category: 'Garlic Bread', keywords: ['garlic bread', 'bonn garlic bread', 'garlic toast', 'cheese garlic bread', 'the health factory zero maida garlic bread'] },
+            { category: 'Cupcakes', keywords: ['cupcake', 'cupcakes'] },
+            { category: 'Muffins', keywords: ['muffin'] },
+            { category: 'Dry Cakes', keywords: ['dry cake', 'christmas fruit cake'] },
+            { category: 'Cakes - Miscellaneous', keywords: ['cake', 'veg cake', 'unibic cake', 'vanilla cake', 'mawa cake', 'ice cream cake', "mother's day cake", 'britannia cake', "father's day cake", 'eggless cake', 'bakery cake', 'cheesecake', 'cake mix', 'caketale', 'pastry', 'banana walnut cake', 'jar cake', 'walnut cake', 'plum cake', 'eggless cake mix', 'birthday cake', 'marble cake', 'milk cake'] },
+            { category: 'Plain Parathas & Rotis', keywords: ['paratha', 'lachha paratha', 'wheat roti'] },
+        ],
+        fallbackCategory: 'Others',
+    },
+    slotConfig: {
+        order: ['Morning', 'Evening'],
+        labels: {},
+        included: [],
+    },
+    branding: {
+        primaryColor: '#1f2937',
+    },
+    exportNames: {
+        report: 'Grupo_Bimbo_SOV_Report.xlsx',
+        rawData: 'raw_data.csv',
+    },
+};
+
+export const MOCK_TENANTS: { [tenantId: string]: TenantConfig } = {
+    [GRUPO_BIMBO.id]: GRUPO_BIMBO,
+};
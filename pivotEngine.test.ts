@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { SovType, TableRowType } from './types';
+import { EMPTY_FILTERS, ALL_PLATFORMS, ALL_CITIES } from './pivotEngine';
+import { rawRow, pivot, findRow } from './testFixtures';
+
+describe('pivotSov', () => {
+    it('reads separate CRAWL_MONTH/SLOT columns and the combined CRAWL_MONTH_SLOT column alike', () => {
+        const separate = pivot([
+            rawRow({ BRAND: 'BIN', total: 30, ad: 10, organic: 20 }),
+            rawRow({ BRAND: 'Britannia', total: 70, ad: 30, organic: 40 }),
+        ]);
+        const combined = pivot([
+            rawRow({ BRAND: 'BIN', CRAWL_MONTH: undefined, SLOT: undefined, CRAWL_MONTH_SLOT: 'Jun-25_Morning_Slot', total: 30, ad: 10, organic: 20 }),
+            rawRow({ BRAND: 'Britannia', CRAWL_MONTH: undefined, SLOT: undefined, CRAWL_MONTH_SLOT: 'Jun-25_Morning_Slot', total: 70, ad: 30, organic: 40 }),
+        ]);
+
+        expect(separate.headers.months.map(m => m.name)).toEqual(["Jun'25"]);
+        expect(separate.headers.months[0].slots.map(s => s.name)).toEqual(['Morning SOV']);
+        expect(combined.headers).toEqual(separate.headers);
+        expect(combined.rows).toEqual(separate.rows);
+        const bin = findRow(separate, 'Blinkit', 'Pune').data["Jun'25"]['Morning SOV'].BIN;
+        expect(bin[SovType.Overall]).toBe(30);
+        expect(bin[SovType.Ad]).toBe(25);
+        expect(bin[SovType.Organic]).toBeCloseTo(100 / 3);
+    });
+
+    it('clubs member brands into their group before computing SOV', () => {
+        const pivotedData = pivot([
+            rawRow({ BRAND: 'BIN', total: 10 }),
+            rawRow({ BRAND: 'Modern', total: 20 }),
+            rawRow({ BRAND: 'Harvest Gold', total: 10 }),
+            rawRow({ BRAND: 'Britannia', total: 60 }),
+        ]);
+
+        const cell = findRow(pivotedData, 'Blinkit', 'Pune').data["Jun'25"]['Morning SOV'];
+        expect(pivotedData.headers.allBrands).toEqual(['BIN', 'Britannia']);
+        expect(cell.BIN[SovType.Overall]).toBe(40);
+        expect(cell.Britannia[SovType.Overall]).toBe(60);
+    });
+
+    it('keeps hidden brands in the denominator', () => {
+        const pivotedData = pivot([
+            rawRow({ BRAND: 'BIN', total: 25 }),
+            rawRow({ BRAND: 'Wibs', total: 75 }),
+        ]);
+
+        expect(pivotedData.headers.allBrands).toEqual(['BIN']);
+        expect(findRow(pivotedData, 'Blinkit', 'Pune').data["Jun'25"]['Morning SOV'].BIN[SovType.Overall]).toBe(25);
+    });
+
+    it('reports 0 rather than NaN when a cell has no impressions of a type', () => {
+        const pivotedData = pivot([
+            rawRow({ BRAND: 'BIN', total: 10, ad: 0, organic: 10 }),
+            rawRow({ BRAND: 'Britannia', total: 10, ad: 0, organic: 10 }),
+            rawRow({ CITY: 'Delhi', BRAND: 'Britannia', total: 5, organic: 5 }),
+        ]);
+
+        const pune = findRow(pivotedData, 'Blinkit', 'Pune').data["Jun'25"]['Morning SOV'];
+        expect(pune.BIN[SovType.Ad]).toBe(0);
+        expect(pune.Britannia[SovType.Ad]).toBe(0);
+        expect(pune.BIN[SovType.Overall]).toBe(50);
+        // Delhi has no BIN rows at all, so BIN's cell is a zero share of Delhi's impressions.
+        expect(findRow(pivotedData, 'Blinkit', 'Delhi').data["Jun'25"]['Morning SOV'].BIN[SovType.Overall]).toBe(0);
+    });
+
+    it('keeps unknown and unparsable months as their own columns, ahead of dated ones', () => {
+        const pivotedData = pivot([
+            rawRow({ CRAWL_MONTH: 'Jun-25', total: 10 }),
+            rawRow({ CRAWL_MONTH: undefined, SLOT: undefined, CRAWL_MONTH_SLOT: '_Morning_Slot', total: 10 }),
+            rawRow({ CRAWL_MONTH: 'May-25', total: 10 }),
+        ]);
+
+        expect(pivotedData.headers.months.map(m => m.name)).toEqual(['Unknown', "May'25", "Jun'25"]);
+        expect(findRow(pivotedData, 'Blinkit', 'Pune').data.Unknown['Morning SOV'].BIN[SovType.Overall]).toBe(100);
+    });
+
+    it('puts spelled-out crawl months in the same period as crawl dates from that month', () => {
+        const pivotedData = pivot([
+            rawRow({ CRAWL_MONTH: 'June-25', BRAND: 'BIN', total: 10 }),
+            rawRow({ CRAWL_MONTH: undefined, CRAWL_DATE: '2025-06-14', BRAND: 'Britannia', total: 30 }),
+        ]);
+
+        expect(pivotedData.headers.months.map(m => m.name)).toEqual(["Jun'25"]);
+        expect(findRow(pivotedData, 'Blinkit', 'Pune').data["Jun'25"]['Morning SOV'].BIN[SovType.Overall]).toBe(25);
+    });
+
+    it('sums impressions across categories instead of averaging their SOVs', () => {
+        const rawData = [
+            rawRow({ CATEGORY: 'Bread', BRAND: 'BIN', total: 10 }),
+            rawRow({ CATEGORY: 'Bread', BRAND: 'Britannia', total: 90 }),
+            rawRow({ CATEGORY: 'Buns', BRAND: 'BIN', total: 30 }),
+            rawRow({ CATEGORY: 'Buns', BRAND: 'Britannia', total: 20 }),
+        ];
+
+        const both = pivot(rawData);
+        const breadOnly = pivot(rawData, { filters: { ...EMPTY_FILTERS, categories: ['Bread'] } });
+
+        expect(findRow(both, 'Blinkit', 'Pune').data["Jun'25"]['Morning SOV'].BIN[SovType.Overall]).toBeCloseTo(40 / 150 * 100);
+        expect(findRow(breadOnly, 'Blinkit', 'Pune').data["Jun'25"]['Morning SOV'].BIN[SovType.Overall]).toBe(10);
+    });
+
+    it('weights platform and grand totals by volume', () => {
+        const pivotedData = pivot([
+            rawRow({ CITY: 'Pune', BRAND: 'BIN', total: 10 }),
+            rawRow({ CITY: 'Pune', BRAND: 'Britannia', total: 90 }),
+            rawRow({ CITY: 'Delhi', BRAND: 'BIN', total: 1 }),
+            rawRow({ CITY: 'Delhi', BRAND: 'Britannia', total: 0 }),
+        ]);
+
+        expect(findRow(pivotedData, 'Blinkit', ALL_CITIES).data["Jun'25"]['Morning SOV'].BIN[SovType.Overall]).toBeCloseTo(11 / 101 * 100);
+        expect(findRow(pivotedData, ALL_PLATFORMS, ALL_CITIES).data["Jun'25"]['Morning SOV'].BIN[SovType.Overall]).toBeCloseTo(11 / 101 * 100);
+    });
+
+    it('orders rows: grand total, then each platform total followed by its cities by latest-period focus brand SOV', () => {
+        const pivotedData = pivot([
+            // Delhi leads in June even though Pune led in May: only the latest period counts.
+            rawRow({ CITY: 'Pune', CRAWL_MONTH: 'May-25', BRAND: 'BIN', total: 90 }),
+            rawRow({ CITY: 'Pune', CRAWL_MONTH: 'May-25', BRAND: 'Britannia', total: 10 }),
+            rawRow({ CITY: 'Pune', BRAND: 'BIN', total: 20 }),
+            rawRow({ CITY: 'Pune', BRAND: 'Britannia', total: 80 }),
+            rawRow({ CITY: 'Delhi', BRAND: 'BIN', total: 60 }),
+            rawRow({ CITY: 'Delhi', BRAND: 'Britannia', total: 40 }),
+            // Ties fall back to alphabetical order.
+            rawRow({ CITY: 'Agra', BRAND: 'BIN', total: 20 }),
+            rawRow({ CITY: 'Agra', BRAND: 'Britannia', total: 80 }),
+            rawRow({ GC_PLATFORM: 'Zepto', CITY: 'Mumbai', BRAND: 'BIN', total: 50 }),
+            rawRow({ GC_PLATFORM: 'Amazon', CITY: 'Chennai', BRAND: 'BIN', total: 50 }),
+        ]);
+
+        expect(pivotedData.rows.map(r => [r.platform, r.city, r.rowType, r.isFirstInPlatform])).toEqual([
+            [ALL_PLATFORMS, ALL_CITIES, TableRowType.GrandTotal, true],
+            ['Amazon', ALL_CITIES, TableRowType.PlatformTotal, true],
+            ['Amazon', 'Chennai', TableRowType.City, false],
+            ['Blinkit', ALL_CITIES, TableRowType.PlatformTotal, true],
+            ['Blinkit', 'Delhi', TableRowType.City, false],
+            ['Blinkit', 'Agra', TableRowType.City, false],
+            ['Blinkit', 'Pune', TableRowType.City, false],
+            ['Zepto', ALL_CITIES, TableRowType.PlatformTotal, true],
+            ['Zepto', 'Mumbai', TableRowType.City, false],
+        ]);
+    });
+
+    it('adds an All Slots column and omits aggregate rows when asked to', () => {
+        const pivotedData = pivot([
+            rawRow({ SLOT: 'Evening', BRAND: 'BIN', total: 30 }),
+            rawRow({ SLOT: 'Evening', BRAND: 'Britannia', total: 70 }),
+            rawRow({ SLOT: 'Morning', BRAND: 'BIN', total: 10 }),
+            rawRow({ SLOT: 'Morning', BRAND: 'Britannia', total: 90 }),
+        ], { aggregateOptions: { showPlatformTotals: false, showGrandTotal: false, showAllSlots: true } });
+
+        expect(pivotedData.headers.months[0].slots.map(s => s.name)).toEqual(['Morning SOV', 'Evening SOV', 'All Slots']);
+        expect(pivotedData.rows.map(r => r.rowType)).toEqual([TableRowType.City]);
+        expect(pivotedData.rows[0].data["Jun'25"]['All Slots'].BIN[SovType.Overall]).toBe(20);
+    });
+
+    it('returns an empty pivot when no rows survive the filters', () => {
+        expect(pivot([rawRow({ total: 10 })], { filters: { ...EMPTY_FILTERS, platforms: ['Zepto'] } })).toEqual({
+            headers: { months: [], allBrands: [] },
+            rows: [],
+        });
+    });
+});
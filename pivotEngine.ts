@@ -0,0 +1,372 @@
+import type { RawDataRow, PivotedData, PivotInput, CleanedRow, Impressions, CellImpressions, TableHeaders, TableRow, TableRowData, SovType, BrandConfig, RowSortOptions, MonthRange, AggregateOptions, DashboardFilters, CategoryTaxonomy, SlotConfig, TimeOptions } from './types';
+import { SovType as SovTypeEnum, RowSortMode as RowSortModeEnum, TableRowType, TimeGrain } from './types';
+import { createBrandResolver } from './brandConfig';
+import { createCategoryResolver } from './taxonomy';
+import { createSlotResolver, parseSlotName } from './slotConfig';
+import { DEFAULT_TIME_OPTIONS, parseCrawlDate, getPeriodLabel, getPeriodBounds, comparePeriods, needsCrawlDate, normaliseMonthLabel } from './timeGrain';
+
+// Turns raw rows into the SOV pivot. Nothing here touches the DOM or storage, so it can be unit-tested
+// and run inside the data worker.
+
+// Labels for the computed aggregate rows and columns.
+export const ALL_PLATFORMS = 'All Platforms';
+export const ALL_CITIES = 'All Cities';
+export const ALL_SLOTS = 'All Slots';
+
+export const DEFAULT_AGGREGATE_OPTIONS: AggregateOptions = {
+    showPlatformTotals: true,
+    showGrandTotal: true,
+    showAllSlots: false,
+};
+
+export const EMPTY_FILTERS: DashboardFilters = {
+    categories: [],
+    platforms: [],
+    cities: [],
+    slots: [],
+    brands: [],
+    monthRange: null,
+};
+
+const parseImpressions = (value: string): number => {
+    const num = parseInt(value, 10);
+    return isNaN(num) ? 0 : num;
+};
+
+export const isKnownMonth = (month: string): boolean => getPeriodBounds(month) !== null;
+
+// Reads the month label and slot name from either the separate CRAWL_MONTH/SLOT columns or the combined
+// CRAWL_MONTH_SLOT column ("Jun-25_Evening_Slot"). Without CRAWL_MONTH the month comes from CRAWL_DATE.
+// Returns null when the row has neither; the slot is empty when the combined value has no slot part.
+export const getMonthAndSlot = (row: RawDataRow): { month: string; slot: string } | null => {
+    if (row.CRAWL_MONTH && row.SLOT) {
+        return { month: normaliseMonthLabel(row.CRAWL_MONTH.replace('-', "'")), slot: parseSlotName(row.SLOT) };
+    }
+    const crawlDate = row.CRAWL_DATE ? parseCrawlDate(row.CRAWL_DATE) : null;
+    if (crawlDate && row.SLOT) {
+        return { month: getPeriodLabel(crawlDate, TimeGrain.Month), slot: parseSlotName(row.SLOT) };
+    }
+    if (row.CRAWL_MONTH_SLOT) {
+        const separator = row.CRAWL_MONTH_SLOT.indexOf('_');
+        const monthStr = separator === -1 ? row.CRAWL_MONTH_SLOT : row.CRAWL_MONTH_SLOT.slice(0, separator);
+        const slot = separator === -1 ? '' : parseSlotName(row.CRAWL_MONTH_SLOT.slice(separator + 1));
+        return { month: monthStr ? normaliseMonthLabel(monthStr.replace('-', "'")) : 'Unknown', slot };
+    }
+    return null;
+};
+
+// Day-of-month of the latest crawl, which month-to-date views cut every month off at.
+export const getMonthToDateCutoff = (rawData: RawDataRow[]): number | null => {
+    const dates = rawData.map(row => row.CRAWL_DATE ? parseCrawlDate(row.CRAWL_DATE) : null).filter((d): d is Date => d !== null);
+    if (dates.length === 0) return null;
+    return dates.reduce((latest, date) => date > latest ? date : latest).getDate();
+};
+
+// Without a crawl date, month and quarter periods fall back to the crawl month; an unparsable month is kept
+// as its own period, as before. Day and week periods can't be derived without a date.
+const getPeriod = (month: string, crawlDate: Date | null, grain: TimeGrain): string | null => {
+    if (crawlDate) return getPeriodLabel(crawlDate, grain);
+    if (needsCrawlDate(grain)) return null;
+    if (grain === TimeGrain.Quarter) {
+        const bounds = getPeriodBounds(month);
+        return bounds ? getPeriodLabel(bounds.start, grain) : month;
+    }
+    return month;
+};
+
+// Filters out malformed rows and slots left out of the report, labels slots and periods and clubs brands.
+// Rows that carry a KEYWORD are categorised with the taxonomy; the rest keep their CATEGORY column.
+export const cleanRows = (
+    rawData: RawDataRow[],
+    brandConfig: BrandConfig,
+    taxonomy: CategoryTaxonomy,
+    slotConfig: SlotConfig,
+    timeOptions: TimeOptions
+): CleanedRow[] => {
+    const resolveBrand = createBrandResolver(brandConfig);
+    const resolveCategory = createCategoryResolver(taxonomy);
+    const { getLabel } = createSlotResolver(slotConfig);
+    const cutoffDay = timeOptions.monthToDate ? getMonthToDateCutoff(rawData) : null;
+
+    return rawData.flatMap(row => {
+        const monthAndSlot = row ? getMonthAndSlot(row) : null;
+        const slot = monthAndSlot && getLabel(monthAndSlot.slot);
+        if (!monthAndSlot || !slot) return [];
+
+        const crawlDate = row.CRAWL_DATE ? parseCrawlDate(row.CRAWL_DATE) : null;
+        if (cutoffDay !== null && (!crawlDate || crawlDate.getDate() > cutoffDay)) return [];
+        const period = getPeriod(monthAndSlot.month, crawlDate, timeOptions.grain);
+        if (!period) return [];
+
+        const brand = resolveBrand(row.BRAND ?? '');
+
+        return [{
+            platform: row.GC_PLATFORM,
+            city: row.CITY,
+            category: row.KEYWORD?.trim() ? resolveCategory(row.KEYWORD) : row.CATEGORY,
+            period,
+            slot,
+            brand,
+            keyword: row.KEYWORD?.trim() ?? '',
+            total: parseImpressions(row.TOTAL_IMPRESSIONS),
+            ad: parseImpressions(row.AD_IMPRESSIONS),
+            organic: parseImpressions(row.ORGANIC_IMPRESSIONS),
+            source: row,
+        }];
+    });
+};
+
+// Ranges hold period labels of the current grain. A period is in range when it starts between the start
+// of the earlier end and the last day of the later one. Unparsable labels only match unparsable bounds.
+const isInPeriodRange = (period: string, range: MonthRange | null): boolean => {
+    if (!range) return true;
+    const time = getPeriodBounds(period)?.start.getTime() ?? 0;
+    const [first, last] = [range.from, range.to].sort(comparePeriods);
+    const from = getPeriodBounds(first)?.start.getTime() ?? 0;
+    const to = getPeriodBounds(last)?.end.getTime() ?? 0;
+    return time >= from && time <= to;
+};
+
+export const matches = (selected: string[], value: string) => selected.length === 0 || selected.includes(value);
+
+// The brand filter is not applied here: it only limits the displayed columns, so SOV denominators still include every brand.
+export const applyRowFilters = (cleanedData: CleanedRow[], filters: DashboardFilters): CleanedRow[] =>
+    cleanedData.filter(row =>
+        matches(filters.categories, row.category) &&
+        matches(filters.platforms, row.platform) &&
+        matches(filters.cities, row.city) &&
+        matches(filters.slots, row.slot) &&
+        isInPeriodRange(row.period, filters.monthRange)
+    );
+
+// Sums impressions per platform|city|period|slot key, per brand and across all brands.
+// Aggregate rows and the "All Slots" column sum impressions before dividing, so they are weighted by volume
+// instead of averaging the city-level percentages.
+export const aggregateImpressions = (cleanedData: CleanedRow[], aggregateOptions: AggregateOptions) => {
+    const groupImpressions: CellImpressions = {};
+    const groupTotals: { [key: string]: Impressions } = {};
+
+    const addImpressions = (key: string, row: CleanedRow) => {
+        if (!groupImpressions[key]) groupImpressions[key] = {};
+        if (!groupImpressions[key][row.brand]) groupImpressions[key][row.brand] = { total: 0, ad: 0, organic: 0 };
+        
+        if (!groupTotals[key]) groupTotals[key] = { total: 0, ad: 0, organic: 0 };
+        
+        groupImpressions[key][row.brand].total += row.total;
+        groupImpressions[key][row.brand].ad += row.ad;
+        groupImpressions[key][row.brand].organic += row.organic;
+        
+        groupTotals[key].total += row.total;
+        groupTotals[key].ad += row.ad;
+        groupTotals[key].organic += row.organic;
+    };
+
+    cleanedData.forEach(row => {
+        const rowKeys = [`${row.platform}|${row.city}`];
+        if (aggregateOptions.showPlatformTotals) rowKeys.push(`${row.platform}|${ALL_CITIES}`);
+        if (aggregateOptions.showGrandTotal) rowKeys.push(`${ALL_PLATFORMS}|${ALL_CITIES}`);
+        const slotKeys = [row.slot];
+        if (aggregateOptions.showAllSlots) slotKeys.push(ALL_SLOTS);
+
+        rowKeys.forEach(rowKey => {
+            slotKeys.forEach(slotKey => addImpressions(`${rowKey}|${row.period}|${slotKey}`, row));
+        });
+    });
+
+    return { groupImpressions, groupTotals };
+};
+
+export const getSovValues = (brand: Impressions, totals: Impressions) => ({
+    [SovTypeEnum.Overall]: totals.total > 0 ? (brand.total / totals.total) * 100 : 0,
+    [SovTypeEnum.Ad]: totals.ad > 0 ? (brand.ad / totals.ad) * 100 : 0,
+    [SovTypeEnum.Organic]: totals.organic > 0 ? (brand.organic / totals.organic) * 100 : 0,
+});
+
+const EMPTY_PIVOT: PivotedData = { headers: { months: [], allBrands: [] }, rows: [] };
+
+// Periods in date order, slots in the configured order (plus "All Slots"), and the configured visible brands
+// that are present in the data and pass the brand filter, in their configured order.
+export const buildHeaders = (
+    cleanedData: CleanedRow[],
+    filters: DashboardFilters,
+    brandConfig: BrandConfig,
+    slotConfig: SlotConfig,
+    aggregateOptions: AggregateOptions
+): TableHeaders => {
+    const uniqueMonths = [...new Set(cleanedData.map(r => r.period))].sort(comparePeriods);
+    const uniqueSlots = [...new Set(cleanedData.map(r => r.slot))].sort(createSlotResolver(slotConfig).compareLabels);
+    const columnSlots = aggregateOptions.showAllSlots && uniqueSlots.length > 0 ? [...uniqueSlots, ALL_SLOTS] : uniqueSlots;
+    const allBrandsInData = new Set(cleanedData.map(r => r.brand));
+    const uniqueBrands = brandConfig.visibleBrands.filter(brand => allBrandsInData.has(brand) && matches(filters.brands, brand));
+
+    return {
+        months: uniqueMonths.map(month => ({
+            name: month,
+            slots: columnSlots.map(slot => ({
+                name: slot,
+                brands: uniqueBrands
+            }))
+        })),
+        allBrands: uniqueBrands
+    };
+};
+
+// One row per platform and city, then the platform totals and the grand total when enabled, in that order.
+export const buildRows = (cleanedData: CleanedRow[], headers: TableHeaders, aggregateOptions: AggregateOptions): TableRow[] => {
+    // Uses ALL brands, so the SOV denominators are accurate whichever brands are displayed.
+    const { groupImpressions, groupTotals } = aggregateImpressions(cleanedData, aggregateOptions);
+
+    const platformCityPairs = [...new Set(cleanedData.map(r => `${r.platform}|${r.city}`))].map(pc => {
+        const [platform, city] = pc.split('|');
+        return { platform, city, rowType: TableRowType.City };
+    });
+    const aggregateRows: { platform: string, city: string, rowType: TableRowType }[] = [];
+    if (aggregateOptions.showPlatformTotals) {
+        [...new Set(platformCityPairs.map(p => p.platform))].forEach(platform => {
+            aggregateRows.push({ platform, city: ALL_CITIES, rowType: TableRowType.PlatformTotal });
+        });
+    }
+    if (aggregateOptions.showGrandTotal) {
+        aggregateRows.push({ platform: ALL_PLATFORMS, city: ALL_CITIES, rowType: TableRowType.GrandTotal });
+    }
+
+    return [...platformCityPairs, ...aggregateRows].map(({ platform, city, rowType }) => {
+        const data: TableRowData = {};
+        const periods: string[] = [];
+        headers.months.forEach(month => {
+            data[month.name] = {};
+            month.slots.forEach(slot => {
+                data[month.name][slot.name] = {};
+                const impressionKey = `${platform}|${city}|${month.name}|${slot.name}`;
+                if (groupTotals[impressionKey] && !periods.includes(month.name)) periods.push(month.name);
+                const impressions = groupImpressions[impressionKey] || {};
+                const totals = groupTotals[impressionKey] || { total: 0, ad: 0, organic: 0 };
+
+                slot.brands.forEach(brand => {
+                    const brandImpressions = impressions[brand] || { total: 0, ad: 0, organic: 0 };
+                    data[month.name][slot.name][brand] = getSovValues(brandImpressions, totals);
+                });
+            });
+        });
+        return { platform, city, rowType, isFirstInPlatform: false, data, periods };
+    });
+};
+
+// The whole pivot: clean, filter, build the columns and rows, then rank cities by the first visible brand's
+// SOV for the latest period. Pure, so it runs the same in the worker, the exports and the tests.
+export const pivotSov = ({
+    rawData,
+    filters,
+    brandConfig,
+    taxonomy,
+    slotConfig,
+    aggregateOptions = DEFAULT_AGGREGATE_OPTIONS,
+    timeOptions = DEFAULT_TIME_OPTIONS,
+}: PivotInput): PivotedData => {
+    const cleanedData = applyRowFilters(cleanRows(rawData, brandConfig, taxonomy, slotConfig, timeOptions), filters);
+    if (cleanedData.length === 0) return EMPTY_PIVOT;
+
+    const headers = buildHeaders(cleanedData, filters, brandConfig, slotConfig, aggregateOptions);
+    const rows = buildRows(cleanedData, headers, aggregateOptions);
+    return sortPivotedRows({ headers, rows }, getDefaultSortOptions(headers.allBrands[0] ?? ''));
+};
+
+// The per-brand impressions behind every cell of pivotSov's result, hidden brands included, for benchmarking.
+export const getCellImpressions = ({
+    rawData,
+    filters,
+    brandConfig,
+    taxonomy,
+    slotConfig,
+    aggregateOptions = DEFAULT_AGGREGATE_OPTIONS,
+    timeOptions = DEFAULT_TIME_OPTIONS,
+}: PivotInput): CellImpressions =>
+    aggregateImpressions(applyRowFilters(cleanRows(rawData, brandConfig, taxonomy, slotConfig, timeOptions), filters), aggregateOptions).groupImpressions;
+
+export const getDefaultSortOptions = (focusBrand: string): RowSortOptions => ({
+    mode: RowSortModeEnum.FocusBrand,
+    focusBrand,
+    competitorBrand: null,
+    sovType: SovTypeEnum.Overall,
+    monthRange: null,
+    descending: true,
+});
+
+const getRankingMonths = (headers: TableHeaders, monthRange: MonthRange | null): string[] => {
+    const months = headers.months.map(m => m.name);
+    const from = monthRange ? months.indexOf(monthRange.from) : -1;
+    const to = monthRange ? months.indexOf(monthRange.to) : -1;
+    if (from === -1 || to === -1) {
+        return months.slice(-1);
+    }
+    return months.slice(Math.min(from, to), Math.max(from, to) + 1);
+};
+
+const sumBrandSov = (row: TableRow, brand: string, months: string[], sovType: SovType): number => {
+    let total = 0;
+    months.forEach(month => {
+        Object.entries(row.data[month] ?? {}).forEach(([slot, slotData]) => {
+            if (slot === ALL_SLOTS) return; // Already included in the individual slots
+            total += slotData[brand]?.[sovType] ?? 0;
+        });
+    });
+    return total;
+};
+
+// Re-orders rows without re-aggregating, so changing the ranking is cheap.
+// Rows stay grouped by platform; only the Platform mode changes the order of the groups themselves.
+// The grand total always leads the table and each platform total leads its group.
+export const sortPivotedRows = (pivotedData: PivotedData, options: RowSortOptions): PivotedData => {
+    const { headers } = pivotedData;
+    const months = getRankingMonths(headers, options.monthRange);
+    const direction = options.descending ? -1 : 1;
+    const competitors = headers.allBrands.filter(brand => brand !== options.focusBrand);
+
+    const getRankingValue = (row: TableRow): number => {
+        const focusSov = sumBrandSov(row, options.focusBrand, months, options.sovType);
+        if (options.mode !== RowSortModeEnum.CompetitorGap) {
+            return focusSov;
+        }
+        const competitorSov = options.competitorBrand
+            ? sumBrandSov(row, options.competitorBrand, months, options.sovType)
+            : Math.max(0, ...competitors.map(brand => sumBrandSov(row, brand, months, options.sovType)));
+        return focusSov - competitorSov;
+    };
+
+    const rankByValue = months.length > 0 && (
+        options.mode === RowSortModeEnum.CompetitorGap ||
+        (options.mode === RowSortModeEnum.FocusBrand && headers.allBrands.includes(options.focusBrand))
+    );
+    const rankingValues = new Map<TableRow, number>();
+    if (rankByValue) {
+        pivotedData.rows.forEach(row => rankingValues.set(row, getRankingValue(row)));
+    }
+
+    const compareCities = (a: TableRow, b: TableRow): number => {
+        if (rankByValue) {
+            const diff = (rankingValues.get(a) ?? 0) - (rankingValues.get(b) ?? 0);
+            if (diff !== 0) return diff * direction;
+        }
+        const cityDirection = options.mode === RowSortModeEnum.City ? direction : 1;
+        return a.city.localeCompare(b.city) * cityDirection; // Alphabetical fallback
+    };
+
+    const platformDirection = options.mode === RowSortModeEnum.Platform ? direction : 1;
+    const platformRows = pivotedData.rows.filter(row => row.rowType !== TableRowType.GrandTotal);
+    const uniquePlatforms = [...new Set(platformRows.map(r => r.platform))]
+        .sort((a, b) => a.localeCompare(b) * platformDirection);
+
+    const rows: TableRow[] = pivotedData.rows
+        .filter(row => row.rowType === TableRowType.GrandTotal)
+        .map(row => ({ ...row, isFirstInPlatform: true }));
+    uniquePlatforms.forEach(platform => {
+        const rowsForPlatform = platformRows.filter(row => row.platform === platform);
+        const citiesForPlatform = [
+            ...rowsForPlatform.filter(row => row.rowType === TableRowType.PlatformTotal),
+            ...rowsForPlatform.filter(row => row.rowType === TableRowType.City).sort(compareCities),
+        ];
+        citiesForPlatform.forEach((row, index) => rows.push({ ...row, isFirstInPlatform: index === 0 }));
+    });
+
+    return { headers, rows };
+};
@@ -0,0 +1,88 @@
+import type { SlotConfig } from './types';
+
+export const DEFAULT_SLOT_CONFIG: SlotConfig = {
+    order: ['Morning', 'Afternoon', 'Evening', 'Night'],
+    labels: {},
+    included: [],
+};
+
+const getStorageKey = (tenantId: string) => `sov-dashboard.slotConfig.${tenantId}`;
+
+// "Evening_Slot", "Evening Slot" and "Evening SOV" all name the "Evening" slot; "Hour_14" becomes "Hour 14".
+export const parseSlotName = (value: string): string =>
+    value.replace(/[_\s]+/g, ' ').trim().replace(/\s*\b(slot|sov)$/i, '').trim();
+
+export const getDefaultSlotLabel = (slot: string): string => `${slot} SOV`;
+
+const normaliseName = (name: string): string => name.trim().toLowerCase();
+
+export interface SlotResolver {
+    // The column label for a slot found in the data, or null when the slot is left out of the report.
+    getLabel: (slot: string) => string | null;
+    // Orders column labels: configured slots first, then the rest in natural order so "Hour 9" precedes "Hour 10".
+    compareLabels: (a: string, b: string) => number;
+}
+
+export const createSlotResolver = (config: SlotConfig): SlotResolver => {
+    const configuredNames = new Map<string, string>();
+    config.order.forEach(slot => configuredNames.set(normaliseName(slot), slot));
+    const labels = new Map(Object.entries(config.labels).map(([slot, label]) => [normaliseName(slot), label]));
+    const included = new Set(config.included.map(normaliseName));
+
+    const getLabel = (slot: string): string | null => {
+        const key = normaliseName(slot);
+        if (!key || (included.size > 0 && !included.has(key))) return null;
+        return labels.get(key) || getDefaultSlotLabel(configuredNames.get(key) ?? slot);
+    };
+
+    const rankByLabel = new Map<string, number>();
+    config.order.forEach((slot, index) => {
+        const label = getLabel(slot);
+        if (label !== null) rankByLabel.set(label, index);
+    });
+
+    return {
+        getLabel,
+        compareLabels: (a, b) => {
+            const rankA = rankByLabel.get(a) ?? config.order.length;
+            const rankB = rankByLabel.get(b) ?? config.order.length;
+            return rankA - rankB || a.localeCompare(b, undefined, { numeric: true });
+        },
+    };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const parseSlotConfig = (value: unknown): SlotConfig => {
+    if (!value || typeof value !== 'object') {
+        throw new Error('Slot configuration must be a JSON object.');
+    }
+    const { order, labels, included } = value as Record<string, unknown>;
+
+    if (!isStringArray(order)) {
+        throw new Error('"order" must be a list of slot names.');
+    }
+    if (!labels || typeof labels !== 'object' || !Object.values(labels).every(label => typeof label === 'string')) {
+        throw new Error('"labels" must map slot names to column labels.');
+    }
+    if (!isStringArray(included)) {
+        throw new Error('"included" must be a list of slot names.');
+    }
+
+    return { order, labels: { ...labels as { [slot: string]: string } }, included };
+};
+
+export const loadSlotConfig = (tenantId: string, fallback: SlotConfig): SlotConfig => {
+    try {
+        const stored = localStorage.getItem(getStorageKey(tenantId));
+        return stored ? parseSlotConfig(JSON.parse(stored)) : fallback;
+    } catch (error) {
+        console.warn('Ignoring invalid stored slot configuration:', error);
+        return fallback;
+    }
+};
+
+export const saveSlotConfig = (tenantId: string, config: SlotConfig) => {
+    localStorage.setItem(getStorageKey(tenantId), JSON.stringify(config));
+};
@@ -0,0 +1,97 @@
+import type { Plugin } from 'vite';
+import type { RawDataRow } from './types';
+
+// A development-only JSON endpoint that serves a large, reproducible dataset for measuring table performance.
+// Load it from the Data Source picker as a JSON endpoint, e.g. /api/dev/synthetic-sov?cities=300&months=12.
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const PLATFORMS = ['Blinkit', 'Instamart', 'Zepto', 'BigBasket', 'Flipkart Minutes', 'Amazon Fresh'];
+const SLOTS = ['Morning', 'Afternoon', 'Evening', 'Night'];
+// The workspace's visible brands first, so the default seven fill the report's brand columns.
+const BRANDS = ['BIN', 'Britannia', 'Bonn', 'English Oven', 'The Health Factory', 'Protein Chef', "The Baker's Dozen", 'Wibs', 'Elite'];
+
+interface SyntheticDataOptions {
+    platforms: number;
+    cities: number;
+    months: number;
+    slots: number;
+    brands: number;
+}
+
+const DEFAULT_OPTIONS: SyntheticDataOptions = { platforms: 4, cities: 100, months: 12, slots: 2, brands: 7 };
+// Larger values are clamped, and the product is capped too, so a typo in the query can't exhaust the dev server's memory.
+const MAX_OPTIONS: SyntheticDataOptions = { platforms: 12, cities: 1000, months: 36, slots: 8, brands: 30 };
+const MAX_ROWS = 2_000_000;
+
+// Seeded so repeated loads produce the same rows and timings stay comparable.
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Every platform covers every city, so the pivot has platforms × cities rows and months × slots × brands columns.
+export const generateSyntheticRows = (options: SyntheticDataOptions): RawDataRow[] => {
+    const random = createRandom(42);
+    const rows: RawDataRow[] = [];
+    const lastMonth = new Date();
+    for (let p = 0; p < options.platforms; p++) {
+        const platform = PLATFORMS[p % PLATFORMS.length] + (p >= PLATFORMS.length ? ` ${Math.floor(p / PLATFORMS.length) + 1}` : '');
+        for (let c = 0; c < options.cities; c++) {
+            for (let m = options.months - 1; m >= 0; m--) {
+                const date = new Date(lastMonth.getFullYear(), lastMonth.getMonth() - m, 1);
+                const month = `${MONTH_NAMES[date.getMonth()]}-${String(date.getFullYear() % 100).padStart(2, '0')}`;
+                for (let s = 0; s < options.slots; s++) {
+                    for (let b = 0; b < options.brands; b++) {
+                        const total = Math.floor(random() * 500);
+                        const ad = Math.floor(total * random() * 0.6);
+                        rows.push({
+                            GC_PLATFORM: platform,
+                            CITY: `City ${String(c + 1).padStart(3, '0')}`,
+                            CATEGORY: random() < 0.7 ? 'Bread - Generic' : 'Brown Bread',
+                            BRAND: BRANDS[b % BRANDS.length] + (b >= BRANDS.length ? ` ${b + 1}` : ''),
+                            CRAWL_MONTH: month,
+                            SLOT: SLOTS[s % SLOTS.length] + (s >= SLOTS.length ? ` ${s + 1}` : ''),
+                            TOTAL_IMPRESSIONS: String(total),
+                            AD_IMPRESSIONS: String(ad),
+                            ORGANIC_IMPRESSIONS: String(total - ad),
+                        });
+                    }
+                }
+            }
+        }
+    }
+    return rows;
+};
+
+const readPositiveInt = (params: URLSearchParams, name: keyof SyntheticDataOptions): number => {
+    const value = parseInt(params.get(name) ?? '', 10);
+    return Number.isInteger(value) && value > 0 ? Math.min(value, MAX_OPTIONS[name]) : DEFAULT_OPTIONS[name];
+};
+
+export const syntheticDataServer = (): Plugin => ({
+    name: 'synthetic-data-server',
+    apply: 'serve',
+    configureServer(server) {
+        server.middlewares.use('/api/dev/synthetic-sov', (req, res) => {
+            const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+            const options: SyntheticDataOptions = {
+                platforms: readPositiveInt(params, 'platforms'),
+                cities: readPositiveInt(params, 'cities'),
+                months: readPositiveInt(params, 'months'),
+                slots: readPositiveInt(params, 'slots'),
+                brands: readPositiveInt(params, 'brands'),
+            };
+            const rowCount = options.platforms * options.cities * options.months * options.slots * options.brands;
+            if (rowCount > MAX_ROWS) {
+                res.statusCode = 400;
+                res.end(`That would be ${rowCount} rows; keep platforms \u00D7 cities \u00D7 months \u00D7 slots \u00D7 brands at or below ${MAX_ROWS}.`);
+                return;
+            }
+            const rows = generateSyntheticRows(options);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(rows));
+        });
+    },
+});
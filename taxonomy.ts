@@ -0,0 +1,96 @@
+import type { CategoryTaxonomy, CategoryRule } from './types';
+
+const getStorageKey = (tenantId: string) => `sov-dashboard.taxonomy.${tenantId}`;
+
+const normaliseKeyword = (keyword: string): string => keyword.trim().toLowerCase();
+
+// Maps a search keyword to its category. Earlier rules win, so a keyword listed twice keeps its first category.
+export const createCategoryResolver = (taxonomy: CategoryTaxonomy): ((keyword: string) => string) => {
+    const lookup = new Map<string, string>();
+    taxonomy.rules.forEach(rule => {
+        rule.keywords.forEach(keyword => {
+            const key = normaliseKeyword(keyword);
+            if (!lookup.has(key)) lookup.set(key, rule.category);
+        });
+    });
+    return (keyword: string) => lookup.get(normaliseKeyword(keyword)) ?? taxonomy.fallbackCategory;
+};
+
+// Keywords claimed by more than one rule. Only the first rule ever applies, so the later entries are dead weight.
+export const findDuplicateKeywords = (taxonomy: CategoryTaxonomy): { keyword: string; categories: string[] }[] => {
+    const categoriesByKeyword = new Map<string, string[]>();
+    taxonomy.rules.forEach(rule => {
+        rule.keywords.forEach(keyword => {
+            const key = normaliseKeyword(keyword);
+            categoriesByKeyword.set(key, [...(categoriesByKeyword.get(key) ?? []), rule.category]);
+        });
+    });
+    return [...categoriesByKeyword.entries()]
+        .filter(([, categories]) => categories.length > 1)
+        .map(([keyword, categories]) => ({ keyword, categories }));
+};
+
+const quoteSql = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+// Produces the CASE expression the warehouse team pastes into their category query.
+export const taxonomyToSql = (taxonomy: CategoryTaxonomy, column = 'f.keyword'): string => [
+    `-- Category taxonomy v${taxonomy.version} (${taxonomy.updatedAt})`,
+    'CASE',
+    ...taxonomy.rules
+        .filter(rule => rule.keywords.length > 0)
+        .map(rule => ` WHEN ${column} IN (${rule.keywords.map(quoteSql).join(', ')}) THEN ${quoteSql(rule.category)}`),
+    ` ELSE ${quoteSql(taxonomy.fallbackCategory)}`,
+    'END AS category',
+].join('\n');
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const parseTaxonomy = (value: unknown): CategoryTaxonomy => {
+    if (!value || typeof value !== 'object') {
+        throw new Error('Category taxonomy must be a JSON object.');
+    }
+    const { version, updatedAt, rules, fallbackCategory } = value as Record<string, unknown>;
+
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error('"version" must be a positive whole number.');
+    }
+    if (typeof updatedAt !== 'string') {
+        throw new Error('"updatedAt" must be an ISO date string.');
+    }
+    if (!Array.isArray(rules) || !rules.every(r => r && typeof r.category === 'string' && isStringArray(r.keywords))) {
+        throw new Error('"rules" must be a list of { category, keywords } entries.');
+    }
+    if (typeof fallbackCategory !== 'string' || !fallbackCategory) {
+        throw new Error('"fallbackCategory" must be a category name.');
+    }
+
+    return {
+        version,
+        updatedAt,
+        rules: (rules as CategoryRule[]).map(({ category, keywords }) => ({ category, keywords })),
+        fallbackCategory,
+    };
+};
+
+// A locally edited taxonomy is only used while it is at least as new as the workspace's;
+// once the workspace publishes a newer version, stale local edits are dropped.
+export const loadTaxonomy = (tenantId: string, workspaceTaxonomy: CategoryTaxonomy): CategoryTaxonomy => {
+    try {
+        const stored = localStorage.getItem(getStorageKey(tenantId));
+        if (!stored) return workspaceTaxonomy;
+        const taxonomy = parseTaxonomy(JSON.parse(stored));
+        if (taxonomy.version < workspaceTaxonomy.version) {
+            console.warn(`Discarding local category taxonomy v${taxonomy.version}; the workspace has v${workspaceTaxonomy.version}.`);
+            return workspaceTaxonomy;
+        }
+        return taxonomy;
+    } catch (error) {
+        console.warn('Ignoring invalid stored category taxonomy:', error);
+        return workspaceTaxonomy;
+    }
+};
+
+export const saveTaxonomy = (tenantId: string, taxonomy: CategoryTaxonomy) => {
+    localStorage.setItem(getStorageKey(tenantId), JSON.stringify(taxonomy));
+};
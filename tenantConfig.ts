@@ -0,0 +1,64 @@
+import type { AuthSession, TenantConfig } from './types';
+import { DataSourceKind } from './types';
+import { AUTH_API_URL } from './auth';
+import { parseBrandConfig } from './brandConfig';
+import { parseTaxonomy } from './taxonomy';
+import { parseSlotConfig, DEFAULT_SLOT_CONFIG } from './slotConfig';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const isRemoteSourceKind = (kind: unknown): kind is DataSourceKind.PublishedSheet | DataSourceKind.JsonEndpoint =>
+    kind === DataSourceKind.PublishedSheet || kind === DataSourceKind.JsonEndpoint;
+
+// Checks the workspace returned by the service so a misconfigured client fails at sign-in, not mid-report.
+export const parseTenantConfig = (value: unknown): TenantConfig => {
+    if (!isRecord(value)) {
+        throw new Error('Workspace configuration must be a JSON object.');
+    }
+    const { id, clientName, dataSource, brandConfig, focusBrand, taxonomy, slotConfig, branding, exportNames } = value;
+
+    if (!isString(id) || !isString(clientName)) {
+        throw new Error('Workspace configuration needs an "id" and a "clientName".');
+    }
+    if (!isRecord(dataSource) || !isRemoteSourceKind(dataSource.kind) || !isString(dataSource.url)) {
+        throw new Error('Workspace "dataSource" must be a published sheet or JSON endpoint with a "url".');
+    }
+    if (!isRecord(branding) || !isString(branding.primaryColor)) {
+        throw new Error('Workspace "branding" needs a "primaryColor".');
+    }
+    if (!isRecord(exportNames) || !isString(exportNames.report) || !isString(exportNames.rawData)) {
+        throw new Error('Workspace "exportNames" needs "report" and "rawData" file names.');
+    }
+
+    return {
+        id,
+        clientName,
+        dataSource: { kind: dataSource.kind, url: dataSource.url },
+        brandConfig: parseBrandConfig(brandConfig),
+        focusBrand: typeof focusBrand === 'string' ? focusBrand : '',
+        taxonomy: parseTaxonomy(taxonomy),
+        slotConfig: slotConfig ? parseSlotConfig(slotConfig) : DEFAULT_SLOT_CONFIG,
+        branding: { primaryColor: branding.primaryColor },
+        exportNames: { report: exportNames.report, rawData: exportNames.rawData },
+    };
+};
+
+const SESSION_EXPIRED = 'SessionExpiredError';
+
+// The service no longer accepts the stored token, so the caller should drop the session rather than retry with it.
+export const isSessionExpiredError = (error: unknown): boolean => error instanceof Error && error.name === SESSION_EXPIRED;
+
+export const fetchTenantConfig = async (session: AuthSession): Promise<TenantConfig> => {
+    const response = await fetch(`${AUTH_API_URL}/tenant`, {
+        headers: { Authorization: `Bearer ${session.token}` },
+    });
+    if (response.status === 401) {
+        throw Object.assign(new Error('Your session has expired. Please sign in again.'), { name: SESSION_EXPIRED });
+    }
+    if (!response.ok) {
+        throw new Error(`Could not load the workspace for ${session.account.displayName} (${response.status}).`);
+    }
+    return parseTenantConfig(await response.json());
+};
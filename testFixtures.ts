@@ -0,0 +1,54 @@
+import type { RawDataRow, BrandConfig, CategoryTaxonomy, PivotInput, PivotedData, TableRow, SovValues } from './types';
+import { SovType, TableRowType } from './types';
+import { pivotSov, EMPTY_FILTERS } from './pivotEngine';
+import { DEFAULT_SLOT_CONFIG } from './slotConfig';
+
+// Rows, settings and pivots shared by the *.test.ts files.
+
+export const brandConfig: BrandConfig = {
+    groups: [{ name: 'BIN', members: ['Modern', 'Harvest Gold'] }],
+    aliases: [],
+    visibleBrands: ['BIN', 'Britannia'],
+};
+
+export const taxonomy: CategoryTaxonomy = { version: 1, updatedAt: '2025-07-01T00:00:00.000Z', rules: [], fallbackCategory: 'Others' };
+
+// One Blinkit / Pune / Bread / BIN row for Jun-25 Morning unless overridden.
+export const rawRow = (overrides: Partial<RawDataRow> & { total?: number; ad?: number; organic?: number }): RawDataRow => {
+    const { total = 0, ad = 0, organic = 0, ...columns } = overrides;
+    return {
+        GC_PLATFORM: 'Blinkit',
+        CITY: 'Pune',
+        CATEGORY: 'Bread',
+        BRAND: 'BIN',
+        CRAWL_MONTH: 'Jun-25',
+        SLOT: 'Morning',
+        TOTAL_IMPRESSIONS: String(total),
+        AD_IMPRESSIONS: String(ad),
+        ORGANIC_IMPRESSIONS: String(organic),
+        ...columns,
+    };
+};
+
+export const pivot = (rawData: RawDataRow[], overrides: Partial<PivotInput> = {}): PivotedData =>
+    pivotSov({ rawData, filters: EMPTY_FILTERS, brandConfig, taxonomy, slotConfig: DEFAULT_SLOT_CONFIG, ...overrides });
+
+export const findRow = (pivotedData: PivotedData, platform: string, city: string): TableRow => {
+    const found = pivotedData.rows.find(r => r.platform === platform && r.city === city);
+    if (!found) throw new Error(`No row for ${platform} / ${city}`);
+    return found;
+};
+
+export const sov = (overall: number, ad = 0, organic = 0): SovValues =>
+    ({ [SovType.Overall]: overall, [SovType.Ad]: ad, [SovType.Organic]: organic });
+
+// A hand-made Blinkit / Pune city row, for tests that start from pivoted data.
+export const tableRow = (overrides: Partial<TableRow>): TableRow => ({
+    platform: 'Blinkit',
+    city: 'Pune',
+    rowType: TableRowType.City,
+    isFirstInPlatform: false,
+    data: {},
+    periods: [],
+    ...overrides,
+});
@@ -0,0 +1,102 @@
+import type { TimeOptions } from './types';
+import { TimeGrain } from './types';
+
+export const DEFAULT_TIME_OPTIONS: TimeOptions = { grain: TimeGrain.Month, monthToDate: false };
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toYearSuffix = (year: number): string => String(year % 100).padStart(2, '0');
+const fromYearSuffix = (suffix: string): number => parseInt(`20${suffix}`, 10);
+const findMonthIndex = (name: string): number => MONTH_NAMES.findIndex(m => name.toLowerCase().startsWith(m.toLowerCase()));
+
+// Accepts 2025-06-14, 14/06/2025 (day first) and 14-Jun-25. Returns null for anything else.
+export const parseCrawlDate = (value: string): Date | null => {
+    const text = value.trim();
+    let year: number, month: number, day: number;
+    let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (match) {
+        [year, month, day] = [parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)];
+    } else if ((match = text.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{2}|\d{4})$/))) {
+        [day, month, year] = [parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)];
+    } else if ((match = text.match(/^(\d{1,2})[-\s]([A-Za-z]{3,})[-\s'](\d{2}|\d{4})$/))) {
+        [day, month, year] = [parseInt(match[1], 10), findMonthIndex(match[2]), parseInt(match[3], 10)];
+    } else {
+        return null;
+    }
+    if (year < 100) year += 2000;
+    const date = new Date(year, month, day);
+    // Rejects month -1 and overflowing days such as 31/06, which Date would silently roll forward.
+    return month >= 0 && date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+// ISO 8601 week: weeks start on Monday and week 1 contains the year's first Thursday.
+const getIsoWeek = (date: Date): { year: number; week: number } => {
+    const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 3 - ((date.getDay() + 6) % 7));
+    const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+    const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / DAY_MS - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+    return { year: thursday.getFullYear(), week };
+};
+
+const getIsoWeekStart = (year: number, week: number): Date => {
+    const jan4 = new Date(year, 0, 4);
+    return new Date(year, 0, 4 - ((jan4.getDay() + 6) % 7) + (week - 1) * 7);
+};
+
+// Labels follow the existing month style: 14 Jun'25, W24'25, Jun'25 and Q2'25.
+export const getPeriodLabel = (date: Date, grain: TimeGrain): string => {
+    const month = MONTH_NAMES[date.getMonth()];
+    switch (grain) {
+        case TimeGrain.Day:
+            return `${date.getDate()} ${month}'${toYearSuffix(date.getFullYear())}`;
+        case TimeGrain.Week: {
+            const { year, week } = getIsoWeek(date);
+            return `W${String(week).padStart(2, '0')}'${toYearSuffix(year)}`;
+        }
+        case TimeGrain.Month:
+            return `${month}'${toYearSuffix(date.getFullYear())}`;
+        case TimeGrain.Quarter:
+            return `Q${Math.floor(date.getMonth() / 3) + 1}'${toYearSuffix(date.getFullYear())}`;
+    }
+};
+
+// The first and last day covered by a period label, or null when the label is not one getPeriodLabel produces.
+export const getPeriodBounds = (label: string): { start: Date; end: Date } | null => {
+    let match = label.match(/^(\d{1,2}) ([A-Za-z]{3})'(\d{2})$/);
+    if (match) {
+        const date = new Date(fromYearSuffix(match[3]), findMonthIndex(match[2]), parseInt(match[1], 10));
+        return { start: date, end: date };
+    }
+    if ((match = label.match(/^W(\d{2})'(\d{2})$/))) {
+        const start = getIsoWeekStart(fromYearSuffix(match[2]), parseInt(match[1], 10));
+        return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6) };
+    }
+    if ((match = label.match(/^Q([1-4])'(\d{2})$/))) {
+        const year = fromYearSuffix(match[2]);
+        const firstMonth = (parseInt(match[1], 10) - 1) * 3;
+        return { start: new Date(year, firstMonth, 1), end: new Date(year, firstMonth + 3, 0) };
+    }
+    // Month labels come straight from CRAWL_MONTH, so they may be spelled out ("June'25").
+    if ((match = label.match(/^([A-Za-z]{3,})'(\d{2})$/))) {
+        const monthIndex = findMonthIndex(match[1]);
+        if (monthIndex === -1) return null;
+        const year = fromYearSuffix(match[2]);
+        return { start: new Date(year, monthIndex, 1), end: new Date(year, monthIndex + 1, 0) };
+    }
+    return null;
+};
+
+// Spelled-out or lower-case months from CRAWL_MONTH ("June'25") get the label a crawl date gives the same
+// month ("Jun'25"), so rows with and without a date land in one period. Anything else is returned as is.
+export const normaliseMonthLabel = (label: string): string => {
+    const match = label.match(/^([A-Za-z]{3,})'(\d{2})$/);
+    const monthIndex = match ? findMonthIndex(match[1]) : -1;
+    return match && monthIndex !== -1 ? `${MONTH_NAMES[monthIndex]}'${match[2]}` : label;
+};
+
+// Unrecognised labels sort first, as unparsable months always have.
+export const comparePeriods = (a: string, b: string): number =>
+    (getPeriodBounds(a)?.start.getTime() ?? 0) - (getPeriodBounds(b)?.start.getTime() ?? 0);
+
+// Day and week periods need a CRAWL_DATE; month and quarter can also be derived from the crawl month.
+export const needsCrawlDate = (grain: TimeGrain): boolean => grain === TimeGrain.Day || grain === TimeGrain.Week;
@@ -3,12 +3,16 @@ export interface RawDataRow {
   CITY: string;
   CRAWL_MONTH_SLOT?: string;
   CRAWL_MONTH?: string;
+  // Optional crawl day (2025-06-14, 14/06/2025 or 14-Jun-25); needed for daily and weekly views.
+  CRAWL_DATE?: string;
   SLOT?: string;
   CATEGORY: string;
   BRAND: string;
   TOTAL_IMPRESSIONS: string;
   AD_IMPRESSIONS: string;
   ORGANIC_IMPRESSIONS: string;
+  // Optional search keyword; when present the row is categorised with the workspace taxonomy.
+  KEYWORD?: string;
 }
 
 export enum SovType {
@@ -23,6 +27,7 @@ export type SovValues = {
   [SovType.Organic]: number;
 };
 
+// "months" are the time periods of the chosen grain; month labels are the default.
 export interface TableHeaders {
   months: {
     name: string;
@@ -42,14 +47,474 @@ export interface TableRowData {
   };
 }
 
+export enum TableRowType {
+  City = 'City',
+  PlatformTotal = 'Platform Total',
+  GrandTotal = 'Grand Total',
+}
+
 export interface TableRow {
   platform: string;
   city: string;
+  rowType: TableRowType;
   isFirstInPlatform: boolean;
   data: TableRowData;
+  // The periods the row has data in, for any brand. Cells without data still read 0%.
+  periods: string[];
 }
 
 export interface PivotedData {
   headers: TableHeaders;
   rows: TableRow[];
-}
\ No newline at end of file
+}
+export enum DataSourceKind {
+  PublishedSheet = 'Published Sheet',
+  LocalFile = 'Local File',
+  JsonEndpoint = 'JSON Endpoint',
+}
+
+export type DataSource =
+  | { kind: DataSourceKind.PublishedSheet; url: string }
+  | { kind: DataSourceKind.LocalFile; file: File }
+  | { kind: DataSourceKind.JsonEndpoint; url: string };
+
+export interface LoadedData {
+  rawData: RawDataRow[];
+  summary: DataSummary;
+  fetchedAt: Date;
+}
+
+// Facts about the loaded rows that don't depend on any setting, worked out once by the data worker.
+export interface DataSummary {
+  // Every slot name in the data, whether or not the slot configuration includes it.
+  slotNames: string[];
+  hasCrawlDates: boolean;
+  // Rows without a usable CRAWL_DATE, which month-to-date, day and week views leave out.
+  undatedRows: number;
+  monthToDateCutoff: number | null;
+  hasKeywords: boolean;
+  dataQuality: DataQualityReport;
+}
+
+export enum ProcessingStage {
+  Downloading = 'Downloading',
+  Parsing = 'Parsing',
+  Pivoting = 'Pivoting',
+}
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  // Rows parsed so far, or the rows being pivoted.
+  rows: number;
+  // Share of the input read, when its size is known.
+  fraction: number | null;
+}
+
+export interface BrandGroup {
+  name: string;
+  members: string[];
+}
+
+export interface BrandAlias {
+  canonical: string;
+  spellings: string[];
+}
+
+export interface BrandConfig {
+  // Parent groups are applied after aliases, so members should use canonical spellings.
+  groups: BrandGroup[];
+  aliases: BrandAlias[];
+  // Brands shown in the report, in column order.
+  visibleBrands: string[];
+}
+
+export enum RowSortMode {
+  FocusBrand = 'Focus Brand SOV',
+  CompetitorGap = 'Gap vs Competitor',
+  Platform = 'Platform',
+  City = 'City',
+}
+
+export interface MonthRange {
+  from: string;
+  to: string;
+}
+
+export interface RowSortOptions {
+  mode: RowSortMode;
+  focusBrand: string;
+  // null compares the focus brand against the strongest other visible brand in each row.
+  competitorBrand: string | null;
+  sovType: SovType;
+  // Months whose SOV is summed for ranking; null ranks by the latest month in the data.
+  monthRange: MonthRange | null;
+  descending: boolean;
+}
+
+export enum DisplayMode {
+  Absolute = 'Absolute',
+  Delta = 'Change (pp)',
+}
+
+export enum ReportFormat {
+  Pdf = 'PDF',
+  Pptx = 'PowerPoint',
+}
+
+export enum ExportScope {
+  Filtered = 'Filtered',
+  Full = 'Full data',
+}
+
+export enum ExportShape {
+  Raw = 'Raw rows',
+  // Clubbed brands, taxonomy categories and normalised period/slot labels.
+  Cleaned = 'Cleaned rows',
+  // Brand and all-brand impressions behind each SOV cell.
+  Aggregated = 'Aggregated impressions',
+}
+
+export enum ExportFormat {
+  Csv = 'CSV',
+  Xlsx = 'XLSX',
+  Json = 'JSON',
+}
+
+export interface DataExportOptions {
+  scope: ExportScope;
+  shape: ExportShape;
+  format: ExportFormat;
+  // Without the extension, which follows the format.
+  fileName: string;
+}
+
+export interface DeltaOptions {
+  // null compares each month with the month before it.
+  baseMonth: string | null;
+  // Moves of at least this many percentage points are highlighted as significant.
+  significanceThreshold: number;
+}
+
+export enum TimeGrain {
+  Day = 'Day',
+  Week = 'ISO Week',
+  Month = 'Month',
+  Quarter = 'Quarter',
+}
+
+export interface TimeOptions {
+  grain: TimeGrain;
+  // Keeps only days up to the latest crawl day-of-month in every month, so partial months compare like for like.
+  monthToDate: boolean;
+}
+
+export interface AggregateOptions {
+  showPlatformTotals: boolean;
+  showGrandTotal: boolean;
+  // Adds an "All Slots" column group per month combining every displayed slot.
+  showAllSlots: boolean;
+}
+
+export enum DashboardView {
+  Table = 'Table',
+  Charts = 'Charts',
+  Benchmark = 'Benchmark',
+}
+
+// Empty lists place no restriction on that dimension.
+export interface DashboardFilters {
+  categories: string[];
+  platforms: string[];
+  cities: string[];
+  slots: string[];
+  // Limits the brand columns shown; SOV is still computed against every brand in the data.
+  brands: string[];
+  monthRange: MonthRange | null;
+}
+
+export interface FilterOptions {
+  categories: string[];
+  platforms: string[];
+  cities: string[];
+  months: string[];
+  slots: string[];
+  brands: string[];
+}
+
+// Everything a pivot depends on. aggregateOptions and timeOptions fall back to the dashboard defaults.
+export interface PivotInput {
+  rawData: RawDataRow[];
+  filters: DashboardFilters;
+  brandConfig: BrandConfig;
+  taxonomy: CategoryTaxonomy;
+  slotConfig: SlotConfig;
+  aggregateOptions?: AggregateOptions;
+  timeOptions?: TimeOptions;
+}
+
+export interface Impressions {
+  total: number;
+  ad: number;
+  organic: number;
+}
+
+// Impressions per brand, for every brand in the data, keyed like the pivot's cells: "platform|city|period|slot".
+export interface CellImpressions {
+  [cellKey: string]: { [brand: string]: Impressions };
+}
+
+export interface BenchmarkOptions {
+  focusBrand: string;
+  // null compares with the leader, or with the runner-up where the focus brand leads.
+  competitorBrand: string | null;
+}
+
+export interface BrandBenchmark {
+  brand: string;
+  // 1 for the highest SOV of the ranking type; tied brands share a rank.
+  rank: number;
+  sov: SovValues;
+  // Share of the brand's own impressions that were ads, or null when it had none.
+  paidShare: number | null;
+}
+
+// Who leads one platform/city/period/slot cell and how the focus brand compares.
+export interface BenchmarkCell {
+  platform: string;
+  city: string;
+  rowType: TableRowType;
+  period: string;
+  slot: string;
+  // Every brand with impressions in the cell, plus the focus and compared brands, leader first.
+  brands: BrandBenchmark[];
+  focus: BrandBenchmark;
+  comparison: BrandBenchmark | null;
+  // Focus minus comparison SOV in percentage points, per SOV type; negative where the focus brand trails.
+  gap: SovValues | null;
+}
+
+export enum AlertRuleType {
+  SovDrop = 'SOV Drop',
+  SovRise = 'SOV Rise',
+  SovMultiplied = 'SOV Multiplied',
+  MissingFromLatest = 'Missing From Latest Period',
+}
+
+export enum AlertBrandTarget {
+  FocusBrand = 'Focus Brand',
+  Competitors = 'Competitors',
+  AnyBrand = 'Any Brand',
+}
+
+// Compares the latest period of the report with the one before it.
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  brands: AlertBrandTarget;
+  sovType: SovType;
+  // Percentage points for drops and rises, a multiple for SovMultiplied (2 = doubled); unused for MissingFromLatest.
+  threshold: number;
+  enabled: boolean;
+}
+
+// One rule match. Brand and slot are null when a whole row went missing.
+export interface AlertHit {
+  ruleId: string;
+  type: AlertRuleType;
+  platform: string;
+  city: string;
+  rowType: TableRowType;
+  slot: string | null;
+  brand: string | null;
+  sovType: SovType;
+  previousPeriod: string;
+  period: string;
+  previous: number | null;
+  current: number | null;
+  message: string;
+}
+
+export enum HeatmapScope {
+  Off = 'Off',
+  // Each month/slot group of brand columns has its own scale.
+  ColumnGroup = 'Per Column Group',
+  Row = 'Per Row',
+  Global = 'Global',
+}
+
+export interface DisplayOptions {
+  heatmap: HeatmapScope;
+  // Decimal places for SOV values and changes.
+  decimals: number;
+  // Leaves zero SOVs and missing values blank instead of showing 0.00% or "-".
+  hideEmptyValues: boolean;
+  highlightFocusBrand: boolean;
+  // Row background per platform as #rrggbb, matched case-insensitively.
+  platformColors: { [platform: string]: string };
+}
+
+// A raw row after cleaning: slot and period labelled, brand clubbed and impressions parsed.
+export interface CleanedRow {
+  platform: string;
+  city: string;
+  category: string;
+  // Label of the day, week, month or quarter the row falls in.
+  period: string;
+  slot: string;
+  brand: string;
+  keyword: string;
+  total: number;
+  ad: number;
+  organic: number;
+  // The row this was cleaned from, for exporting filtered raw rows.
+  source: RawDataRow;
+}
+
+export interface DashboardViewState {
+  filters: DashboardFilters;
+  sovType: SovType;
+  sortOptions: RowSortOptions;
+  view: DashboardView;
+  displayMode: DisplayMode;
+  deltaOptions: DeltaOptions;
+  aggregateOptions: AggregateOptions;
+  timeOptions: TimeOptions;
+  benchmarkOptions: BenchmarkOptions;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  createdAt: string;
+  // Encoded in the same query-string format as the shareable URL.
+  query: string;
+}
+
+export interface Account {
+  id: string;
+  displayName: string;
+  tenantId: string;
+}
+
+export interface AuthSession {
+  token: string;
+  account: Account;
+  // Epoch milliseconds.
+  expiresAt: number;
+}
+
+// Local files can't be part of a stored configuration, so workspaces always point at a remote source.
+export type RemoteDataSource = Exclude<DataSource, { kind: DataSourceKind.LocalFile }>;
+
+export interface TenantBranding {
+  // Any CSS colour; used for the dashboard title and active tabs.
+  primaryColor: string;
+}
+
+export interface TenantExportNames {
+  report: string;
+  rawData: string;
+}
+
+export interface SlotConfig {
+  // Slot names as they appear in the data (e.g. "Morning"), in column order. Unlisted slots follow in natural order.
+  order: string[];
+  // Column labels by slot name; slots without one are shown as "<slot> SOV".
+  labels: { [slot: string]: string };
+  // Slots to report. Empty means every slot found in the data.
+  included: string[];
+}
+
+export interface CategoryRule {
+  category: string;
+  keywords: string[];
+}
+
+// Rules are checked in order and the first matching keyword wins, like the warehouse CASE statement.
+export interface CategoryTaxonomy {
+  // Bumped on every saved edit so locally edited copies can be compared with the workspace's.
+  version: number;
+  // ISO timestamp of the last edit.
+  updatedAt: string;
+  rules: CategoryRule[];
+  fallbackCategory: string;
+}
+
+export interface TenantConfig {
+  id: string;
+  clientName: string;
+  dataSource: RemoteDataSource;
+  brandConfig: BrandConfig;
+  // The client's own brand, used as the default focus for ranking.
+  focusBrand: string;
+  taxonomy: CategoryTaxonomy;
+  slotConfig: SlotConfig;
+  branding: TenantBranding;
+  exportNames: TenantExportNames;
+}
+
+export enum DataIssueType {
+  MissingField = 'Missing Field',
+  NonNumericImpressions = 'Non-numeric Impressions',
+  ImpressionMismatch = 'Ad + Organic ≠ Total',
+  UnknownSlot = 'Unknown Slot',
+  UnparsableMonth = 'Unparsable Month',
+  UnparsableDate = 'Unparsable Date',
+  DuplicateKey = 'Duplicate Row',
+}
+
+export interface DataIssue {
+  type: DataIssueType;
+  // 1-based position in the source, counting the header as row 1 like a spreadsheet does.
+  rowNumber: number;
+  detail: string;
+  row: RawDataRow;
+}
+
+export interface DataQualityReport {
+  totalRows: number;
+  // Rows with at least one issue; a row can have several.
+  invalidRows: number;
+  issues: DataIssue[];
+}
+
+// Identifies one SovTable cell; platform, city and slot may be the aggregate labels.
+export interface SovCell {
+  platform: string;
+  city: string;
+  month: string;
+  slot: string;
+  brand: string;
+}
+
+export interface KeywordContribution {
+  keyword: string;
+  category: string;
+  brandImpressions: number;
+  totalImpressions: number;
+  // The brand's share of this keyword's impressions.
+  sov: number;
+  // Percentage points this keyword adds to the cell's SOV; these sum to the cell value.
+  contribution: number;
+}
+
+export interface KeywordBreakdown {
+  cell: SovCell;
+  sovType: SovType;
+  cellSov: number;
+  keywords: KeywordContribution[];
+}
+
+// A city/brand cell whose SOV moved between the last two periods of the report.
+export interface SovMover {
+  platform: string;
+  city: string;
+  brand: string;
+  slot: string;
+  previousPeriod: string;
+  period: string;
+  previous: number;
+  current: number;
+  // Percentage points.
+  change: number;
+}
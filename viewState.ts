@@ -0,0 +1,155 @@
+import type { DashboardViewState, DashboardFilters, SavedView } from './types';
+import { SovType, RowSortMode, DashboardView, DisplayMode, TimeGrain } from './types';
+import { DEFAULT_DELTA_OPTIONS } from './dataService';
+import { EMPTY_FILTERS, DEFAULT_AGGREGATE_OPTIONS, getDefaultSortOptions } from './pivotEngine';
+import { DEFAULT_TIME_OPTIONS } from './timeGrain';
+
+const getSavedViewsStorageKey = (tenantId: string) => `sov-dashboard.savedViews.${tenantId}`;
+
+export const getDefaultViewState = (focusBrand: string): DashboardViewState => ({
+    filters: EMPTY_FILTERS,
+    sovType: SovType.Overall,
+    sortOptions: getDefaultSortOptions(focusBrand),
+    view: DashboardView.Table,
+    displayMode: DisplayMode.Absolute,
+    deltaOptions: DEFAULT_DELTA_OPTIONS,
+    aggregateOptions: DEFAULT_AGGREGATE_OPTIONS,
+    timeOptions: DEFAULT_TIME_OPTIONS,
+    benchmarkOptions: { focusBrand, competitorBrand: null },
+});
+
+// Multi-value filters are written as repeated parameters (?city=Pune&city=Delhi) so names may contain commas.
+const LIST_PARAMS: [keyof Omit<DashboardFilters, 'categories' | 'monthRange'>, string][] = [
+    ['platforms', 'platform'],
+    ['cities', 'city'],
+    ['slots', 'slot'],
+    ['brands', 'brand'],
+];
+
+const parseEnum = <T extends string>(values: T[], value: string | null, fallback: T): T =>
+    values.includes(value as T) ? value as T : fallback;
+
+const parseNumber = (value: string | null, fallback: number): number => {
+    const num = value === null ? NaN : parseFloat(value);
+    return isNaN(num) ? fallback : num;
+};
+
+const parseFlag = (value: string | null, fallback: boolean): boolean =>
+    value === null ? fallback : value === '1';
+
+// Only values that differ from the defaults are written, which keeps shared links short.
+// Categories are omitted when every category is selected, since that is what a fresh load selects.
+export const encodeViewState = (
+    state: DashboardViewState,
+    defaults: DashboardViewState,
+    allCategories: string[]
+): string => {
+    const params = new URLSearchParams();
+    const { filters, sortOptions, deltaOptions, aggregateOptions, timeOptions, benchmarkOptions } = state;
+
+    if (filters.categories.length > 0 && (allCategories.length === 0 || filters.categories.length < allCategories.length)) {
+        filters.categories.forEach(category => params.append('cat', category));
+    }
+    LIST_PARAMS.forEach(([key, param]) => filters[key].forEach(value => params.append(param, value)));
+    if (filters.monthRange) {
+        params.set('from', filters.monthRange.from);
+        params.set('to', filters.monthRange.to);
+    }
+
+    if (state.sovType !== defaults.sovType) params.set('sov', state.sovType);
+    if (state.view !== defaults.view) params.set('view', state.view);
+    if (state.displayMode !== defaults.displayMode) params.set('mode', state.displayMode);
+    if (deltaOptions.baseMonth) params.set('base', deltaOptions.baseMonth);
+    if (deltaOptions.significanceThreshold !== defaults.deltaOptions.significanceThreshold) {
+        params.set('threshold', String(deltaOptions.significanceThreshold));
+    }
+
+    if (sortOptions.mode !== defaults.sortOptions.mode) params.set('sort', sortOptions.mode);
+    if (sortOptions.focusBrand !== defaults.sortOptions.focusBrand) params.set('focus', sortOptions.focusBrand);
+    if (sortOptions.competitorBrand) params.set('vs', sortOptions.competitorBrand);
+    if (sortOptions.sovType !== defaults.sortOptions.sovType) params.set('rankSov', sortOptions.sovType);
+    if (sortOptions.monthRange) {
+        params.set('rankFrom', sortOptions.monthRange.from);
+        params.set('rankTo', sortOptions.monthRange.to);
+    }
+    if (sortOptions.descending !== defaults.sortOptions.descending) params.set('dir', sortOptions.descending ? 'desc' : 'asc');
+
+    if (aggregateOptions.showGrandTotal !== defaults.aggregateOptions.showGrandTotal) params.set('grandTotal', aggregateOptions.showGrandTotal ? '1' : '0');
+    if (aggregateOptions.showPlatformTotals !== defaults.aggregateOptions.showPlatformTotals) params.set('platformTotals', aggregateOptions.showPlatformTotals ? '1' : '0');
+    if (aggregateOptions.showAllSlots !== defaults.aggregateOptions.showAllSlots) params.set('allSlots', aggregateOptions.showAllSlots ? '1' : '0');
+
+    if (timeOptions.grain !== defaults.timeOptions.grain) params.set('grain', timeOptions.grain);
+    if (timeOptions.monthToDate !== defaults.timeOptions.monthToDate) params.set('mtd', timeOptions.monthToDate ? '1' : '0');
+
+    if (benchmarkOptions.focusBrand !== defaults.benchmarkOptions.focusBrand) params.set('benchFocus', benchmarkOptions.focusBrand);
+    if (benchmarkOptions.competitorBrand) params.set('benchVs', benchmarkOptions.competitorBrand);
+
+    return params.toString();
+};
+
+// Unknown or malformed parameters fall back to the defaults rather than failing, since links get hand-edited.
+export const decodeViewState = (query: string, defaults: DashboardViewState): DashboardViewState => {
+    const params = new URLSearchParams(query);
+    const from = params.get('from');
+    const to = params.get('to');
+    const rankFrom = params.get('rankFrom');
+    const rankTo = params.get('rankTo');
+
+    const filters: DashboardFilters = {
+        ...defaults.filters,
+        categories: params.getAll('cat'),
+        monthRange: from && to ? { from, to } : null,
+    };
+    LIST_PARAMS.forEach(([key, param]) => {
+        filters[key] = params.getAll(param);
+    });
+
+    return {
+        filters,
+        sovType: parseEnum(Object.values(SovType), params.get('sov'), defaults.sovType),
+        view: parseEnum(Object.values(DashboardView), params.get('view'), defaults.view),
+        displayMode: parseEnum(Object.values(DisplayMode), params.get('mode'), defaults.displayMode),
+        deltaOptions: {
+            baseMonth: params.get('base') || null,
+            significanceThreshold: Math.max(0, parseNumber(params.get('threshold'), defaults.deltaOptions.significanceThreshold)),
+        },
+        sortOptions: {
+            mode: parseEnum(Object.values(RowSortMode), params.get('sort'), defaults.sortOptions.mode),
+            focusBrand: params.get('focus') ?? defaults.sortOptions.focusBrand,
+            competitorBrand: params.get('vs') || null,
+            sovType: parseEnum(Object.values(SovType), params.get('rankSov'), defaults.sortOptions.sovType),
+            monthRange: rankFrom && rankTo ? { from: rankFrom, to: rankTo } : null,
+            descending: params.has('dir') ? params.get('dir') !== 'asc' : defaults.sortOptions.descending,
+        },
+        aggregateOptions: {
+            showGrandTotal: parseFlag(params.get('grandTotal'), defaults.aggregateOptions.showGrandTotal),
+            showPlatformTotals: parseFlag(params.get('platformTotals'), defaults.aggregateOptions.showPlatformTotals),
+            showAllSlots: parseFlag(params.get('allSlots'), defaults.aggregateOptions.showAllSlots),
+        },
+        timeOptions: {
+            grain: parseEnum(Object.values(TimeGrain), params.get('grain'), defaults.timeOptions.grain),
+            monthToDate: parseFlag(params.get('mtd'), defaults.timeOptions.monthToDate),
+        },
+        benchmarkOptions: {
+            focusBrand: params.get('benchFocus') ?? defaults.benchmarkOptions.focusBrand,
+            competitorBrand: params.get('benchVs') || null,
+        },
+    };
+};
+
+export const loadSavedViews = (tenantId: string): SavedView[] => {
+    try {
+        const stored = localStorage.getItem(getSavedViewsStorageKey(tenantId));
+        const views: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(views)
+            ? views.filter((v): v is SavedView => v && typeof v.id === 'string' && typeof v.name === 'string' && typeof v.query === 'string')
+            : [];
+    } catch (error) {
+        console.warn('Ignoring invalid stored saved views:', error);
+        return [];
+    }
+};
+
+export const saveSavedViews = (tenantId: string, views: SavedView[]) => {
+    localStorage.setItem(getSavedViewsStorageKey(tenantId), JSON.stringify(views));
+};
@@ -1,12 +1,19 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { mockAuthServer } from './mockAuthServer';
+import { syntheticDataServer } from './syntheticDataServer';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [
+        mockAuthServer(env.MOCK_AUTH_ACCOUNTS),
+        syntheticDataServer()
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AUTH_API_URL': JSON.stringify(env.AUTH_API_URL ?? '')
       },
       resolve: {
         alias: {